@@ -0,0 +1,21 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import js from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+    js.configs.recommended,
+    ...tseslint.configs.recommended,
+    {
+        rules: {
+            // Route modules are Express sub-apps exported with module.exports and mounted with require in Server.ts.
+            '@typescript-eslint/no-require-imports': 'off',
+            // Errors that are only caught to be replaced by a message of our own do not need a name.
+            '@typescript-eslint/no-unused-vars': ['error', { caughtErrors: 'none' }],
+        },
+    },
+    {
+        ignores: ['dist/', 'coverage/'],
+    },
+);
@@ -7,6 +7,12 @@ USE `images`;
 CREATE TABLE IF NOT EXISTS `images`.`profile`  (
     `userId`    INT          NOT NULL,
     `image`     VARCHAR(150) NOT NULL,
+    `variants`  JSON         NULL,
+    `visibility` VARCHAR(16) NOT NULL DEFAULT 'public',
+    `originalName` VARCHAR(255) NULL,
+    `uploadedBy` VARCHAR(255) NULL,
+    `createdAt` DATETIME(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3)  NOT NULL,
     PRIMARY KEY (`userId`)
 );
 
@@ -14,5 +20,101 @@ CREATE TABLE IF NOT EXISTS `images`.`listing`  (
 	`listingId`	INT          NOT NULL,
     `index`     INT          NOT NULL,
 	`image` 	VARCHAR(150) NOT NULL,
-	PRIMARY KEY (`listingId`)
+    `variants`  JSON         NULL,
+    `visibility` VARCHAR(16) NOT NULL DEFAULT 'public',
+    `originalName` VARCHAR(255) NULL,
+    `uploadedBy` VARCHAR(255) NULL,
+    `createdAt` DATETIME(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3)  NOT NULL,
+	PRIMARY KEY (`listingId`, `index`)
+);
+
+CREATE TABLE IF NOT EXISTS `images`.`blob`  (
+    `key`       VARCHAR(150) NOT NULL,
+    `hash`      CHAR(64)     NOT NULL,
+    `refCount`  INT          NOT NULL DEFAULT 0,
+    `variants`  JSON         NULL,
+    `processing` JSON        NULL,
+    `width`     INT          NULL,
+    `height`    INT          NULL,
+    `size`      INT          NULL,
+    `format`    VARCHAR(16)  NULL,
+    `blurhash`  VARCHAR(64)  NULL,
+    `placeholder` TEXT       NULL,
+    `dominantColor` VARCHAR(7) NULL,
+    `createdAt` DATETIME(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3)  NOT NULL,
+    PRIMARY KEY (`key`)
+);
+
+CREATE TABLE IF NOT EXISTS `images`.`pendingUpload`  (
+    `token`         VARCHAR(64)  NOT NULL,
+    `type`          VARCHAR(16)  NOT NULL,
+    `entityId`      INT          NOT NULL,
+    `index`         INT          NULL,
+    `key`           VARCHAR(150) NOT NULL,
+    `contentType`   VARCHAR(64)  NOT NULL,
+    `visibility`    VARCHAR(16)  NOT NULL DEFAULT 'public',
+    `expiresAt`     DATETIME(3)  NOT NULL,
+    `createdAt`     DATETIME(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    PRIMARY KEY (`token`),
+    INDEX `pendingUpload_expiresAt_idx` (`expiresAt`)
+);
+
+CREATE TABLE IF NOT EXISTS `images`.`pendingOperation`  (
+    `id`            INT          NOT NULL AUTO_INCREMENT,
+    `action`        VARCHAR(16)  NOT NULL,
+    `key`           VARCHAR(150) NOT NULL,
+    `variants`      JSON         NULL,
+    `attempts`      INT          NOT NULL DEFAULT 0,
+    `lastError`     TEXT         NULL,
+    `runAfter`      DATETIME(3)  NOT NULL,
+    `createdAt`     DATETIME(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    PRIMARY KEY (`id`),
+    INDEX `pendingOperation_runAfter_idx` (`runAfter`)
+);
+
+CREATE TABLE IF NOT EXISTS `images`.`job`  (
+    `id`            CHAR(36)      NOT NULL,
+    `action`        VARCHAR(16)   NOT NULL,
+    `type`          VARCHAR(16)   NOT NULL,
+    `entityId`      INT           NOT NULL,
+    `index`         INT           NULL,
+    `visibility`    VARCHAR(16)   NULL,
+    `stagingKey`    VARCHAR(150)  NOT NULL,
+    `contentType`   VARCHAR(64)   NOT NULL,
+    `originalName`  VARCHAR(255)  NULL,
+    `uploadedBy`    VARCHAR(255)  NULL,
+    `callbackUrl`   VARCHAR(2048) NULL,
+    `status`        VARCHAR(16)   NOT NULL DEFAULT 'queued',
+    `attempts`      INT           NOT NULL DEFAULT 0,
+    `errorCode`     VARCHAR(64)   NULL,
+    `lastError`     TEXT          NULL,
+    `result`        JSON          NULL,
+    `runAfter`      DATETIME(3)   NOT NULL,
+    `lockedUntil`   DATETIME(3)   NULL,
+    `completedAt`   DATETIME(3)   NULL,
+    `createdAt`     DATETIME(3)   NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt`     DATETIME(3)   NOT NULL,
+    PRIMARY KEY (`id`),
+    INDEX `job_status_runAfter_idx` (`status`, `runAfter`)
+);
+
+CREATE TABLE IF NOT EXISTS `images`.`webhookDelivery`  (
+    `id`             INT          NOT NULL AUTO_INCREMENT,
+    `eventId`        CHAR(36)     NOT NULL,
+    `event`          VARCHAR(64)  NOT NULL,
+    `subscription`   VARCHAR(64)  NOT NULL,
+    `payload`        JSON         NOT NULL,
+    `status`         VARCHAR(16)  NOT NULL DEFAULT 'pending',
+    `attempts`       INT          NOT NULL DEFAULT 0,
+    `responseStatus` INT          NULL,
+    `lastError`      TEXT         NULL,
+    `runAfter`       DATETIME(3)  NOT NULL,
+    `deliveredAt`    DATETIME(3)  NULL,
+    `replayOf`       INT          NULL,
+    `createdAt`      DATETIME(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    PRIMARY KEY (`id`),
+    INDEX `webhookDelivery_status_runAfter_idx` (`status`, `runAfter`),
+    INDEX `webhookDelivery_eventId_idx` (`eventId`)
 );
@@ -0,0 +1,187 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { log, LogLevel } from './utils/Logger.ts';
+import { trackQueryErrors } from './utils/Metrics.ts';
+import { generateImageKey } from './utils/KeyGeneration.ts';
+import { VariantKeys, hashImage, processImage, storeProcessedImage, deleteImageVariants, setImageVisibility } from './ImagePipeline.ts';
+import { Visibility } from './storage/StorageBackend.ts';
+import { config } from './Config.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+// How long an upload may take between retaining its image and writing its row. After that, the reference is treated as
+// abandoned and released by the pending operation retries.
+const abandonedUploadTimeout: number = config.uploads.abandonedUploadTimeout;
+
+/**
+ * A stored image that a profile or listing row can point to.
+ */
+interface RetainedImage {
+    hash: string;
+    key: string;
+    variants: VariantKeys;
+    operationId: number;
+}
+
+/**
+ * Counts the profile and listing rows that point to an image key.
+ *
+ * @param {string} key - The original image key.
+ * @param {Visibility} [visibility] - Only count rows with this visibility.
+ * @return {Promise<number>} - The number of referencing rows.
+ */
+async function countReferences(key: string, visibility?: Visibility): Promise<number> {
+    const where = visibility ? { image: key, visibility } : { image: key };
+    const [profiles, listings] = await Promise.all([
+        prisma.profile.count({ where }),
+        prisma.listing.count({ where }),
+    ]);
+
+    return profiles + listings;
+}
+
+/**
+ * Takes a reference to the blob for an upload, storing it first if nobody has uploaded the same content before.
+ *
+ * Images are content-addressed, so two uploads of the same file share their objects in storage. When the blob already
+ * exists, processing and the storage PUT are skipped and the existing variants are reused. Every call has to be
+ * balanced by a call to releaseImage once the row pointing to the image is gone.
+ *
+ * The reference is recorded together with a pending release, so a reference whose row is never written is released
+ * again even if the process dies in between. Committing the row has to cancel that release, see commitImageWrite.
+ *
+ * @param {string} type - The image type, either "profile" or "listing".
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @param {string} mimetype - The MIME type of the uploaded file.
+ * @param {Visibility} [visibility] - Who can read the image if it has to be stored. Defaults to public.
+ * @return {Promise<RetainedImage>} - The key and variants to store on the row.
+ * @throws {Error} - If the image could not be processed or stored. The reference is released again in that case.
+ */
+async function retainImage(type: string, buffer: Buffer, mimetype: string, visibility: Visibility = 'public'): Promise<RetainedImage> {
+    const hash = hashImage(buffer);
+    const key = generateImageKey(type, hash, mimetype);
+
+    const [blob, operation] = await prisma.$transaction([
+        prisma.blob.upsert({
+            where: { key },
+            create: { key, hash, refCount: 1 },
+            update: { refCount: { increment: 1 } },
+        }),
+        prisma.pendingOperation.create({
+            data: {
+                action: 'release',
+                key,
+                runAfter: new Date(Date.now() + abandonedUploadTimeout * 1000),
+            }
+        }),
+    ]);
+
+    // A blob without variants is either new, or still being stored by a concurrent upload. Storing the same content
+    // twice is harmless because the keys are identical. Blobs without a processing record were stored before metadata
+    // was stripped, blobs without a width before their dimensions were recorded, and blobs without a BlurHash before
+    // placeholders were computed, so they are processed again.
+    if (blob.variants && blob.processing && blob.width !== null && blob.blurhash !== null) {
+        log(`Blob already stored, skipping upload: ${key} (${blob.refCount} references)`);
+
+        if (visibility === 'public') {
+            await setImageVisibility(key, blob.variants, 'public');
+        }
+
+        return { hash, key, variants: blob.variants as VariantKeys, operationId: operation.id };
+    }
+
+    try {
+        const processed = await processImage(type, buffer, mimetype);
+        await storeProcessedImage(processed, visibility);
+
+        await prisma.blob.update({
+            where: { key },
+            data: { variants: processed.variants, processing: processed.processing, ...processed.info, ...processed.placeholder },
+        });
+
+        log(`Blob stored: ${key}`);
+        return { hash, key, variants: processed.variants, operationId: operation.id };
+    } catch (error) {
+        await releaseImage(key, null, operation.id).catch((releaseError: Error) => {
+            log(`Failed to release blob after a failed upload, leaving it to the retries: ${releaseError.message}`, LogLevel.ERROR);
+        });
+        throw error;
+    }
+}
+
+/**
+ * Drops a reference to a blob, deleting its objects from storage once nothing refers to it anymore.
+ *
+ * Images stored before blobs were tracked have no blob row. They are only deleted when no profile or listing row
+ * points to them anymore.
+ *
+ * When the release belongs to a pending operation, the operation is removed in the same transaction as the reference,
+ * so retrying an operation that already went through does not drop a second reference.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} [variants] - The variant map stored on the released row, used for untracked images.
+ * @param {number} [operationId] - The pending operation this release carries out.
+ * @throws {Error} - If the blob could not be updated or its objects could not be deleted.
+ */
+async function releaseImage(key: string, variants: Prisma.JsonValue | null = null, operationId?: number): Promise<void> {
+    const released = await prisma.$transaction(async (tx) => {
+        if (operationId !== undefined) {
+            const { count } = await tx.pendingOperation.deleteMany({ where: { id: operationId } });
+
+            if (count === 0) {
+                log(`Release ${operationId} already carried out: ${key}`);
+                return null;
+            }
+        }
+
+        // Decrementing first, and deleting only a row that has no references left, keeps a concurrent retainImage from
+        // taking a reference to a blob that is about to be deleted.
+        const { count: tracked } = await tx.blob.updateMany({ where: { key }, data: { refCount: { decrement: 1 } } });
+
+        if (tracked === 0) {
+            return { untracked: true, variants };
+        }
+
+        const blob = await tx.blob.findUniqueOrThrow({ where: { key } });
+        const { count: deleted } = await tx.blob.deleteMany({ where: { key, refCount: { lte: 0 } } });
+
+        if (deleted !== 1) {
+            log(`Released blob reference: ${key} (${blob.refCount} references left)`);
+            return null;
+        }
+
+        return { untracked: false, variants: blob.variants };
+    });
+
+    if (!released) {
+        return;
+    }
+
+    if (released.untracked && await countReferences(key) > 0) {
+        log(`Untracked image is still referenced, keeping it: ${key}`, LogLevel.WARNING);
+        return;
+    }
+
+    // The blob row is already gone at this point, so objects left behind by a failed delete are orphaned.
+    log(`Last reference released, deleting blob: ${key}`);
+    await deleteImageVariants(key, released.variants);
+}
+
+/**
+ * Makes the objects of a blob match the visibility of the rows referencing it.
+ *
+ * A shared blob has one set of objects, so it stays public as long as any referencing row is public. Content that is
+ * already public through one upload gains nothing from being hidden for another.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} variants - The stored variant map.
+ * @throws {Error} - If the objects could not be updated.
+ */
+async function syncBlobVisibility(key: string, variants: Prisma.JsonValue | null): Promise<void> {
+    const visibility: Visibility = await countReferences(key, 'public') > 0 ? 'public' : 'private';
+    await setImageVisibility(key, variants, visibility);
+}
+
+export { RetainedImage, countReferences, retainImage, releaseImage, syncBlobVisibility };
@@ -0,0 +1,470 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import fs from 'fs';
+
+require('dotenv').config();
+
+const STORAGE_BACKENDS = ['s3', 'local', 'memory'] as const;
+const UPLOAD_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'gif'] as const;
+const CONVERSION_FORMATS = ['webp', 'avif'] as const;
+const METADATA_CATEGORIES = ['icc', 'exif'] as const;
+const LOG_LEVELS = ['verbose', 'warning', 'error'] as const;
+const WEBHOOK_EVENTS = ['image.created', 'image.updated', 'image.deleted', 'image.processing_failed'] as const;
+
+/**
+ * A service that is sent webhooks for image events.
+ */
+interface WebhookSubscription {
+    name: string;
+    url: string;
+    secret: string;
+    events: (typeof WEBHOOK_EVENTS)[number][];
+}
+
+/**
+ * Everything the indexer can be configured with, validated and converted to the right types.
+ * Durations are in seconds unless their name says otherwise, sizes are in bytes.
+ */
+interface Config {
+    port: number;
+    rateLimit: {
+        window: number;
+        max: number;
+    };
+    uploads: {
+        maxFileSize: number;
+        formats: (typeof UPLOAD_FORMATS)[number][];
+        maxImageDimension: number;
+        maxImagePixels: number;
+        directUploadTtl: number;
+        pendingUploadSweepInterval: number;
+        abandonedUploadTimeout: number;
+        batchConcurrency: number;
+    };
+    images: {
+        variants: string;
+        formats: (typeof CONVERSION_FORMATS)[number][];
+        webpQuality: number;
+        avifQuality: number;
+        metadataAllowlist: (typeof METADATA_CATEGORIES)[number][];
+        signedUrlTtl: number;
+    };
+    transforms: {
+        presets: string;
+        cacheSize: number;
+        maxAge: number;
+    };
+    storage: {
+        backend: (typeof STORAGE_BACKENDS)[number];
+        publicUrl?: string;
+        cdnUrl?: string;
+        localPath: string;
+        signingSecret?: string;
+        s3: {
+            bucket: string;
+            region: string;
+            accessKeyId?: string;
+            secretAccessKey?: string;
+            endpoint?: string;
+            forcePathStyle: boolean;
+        };
+    };
+    auth: {
+        disabled: boolean;
+        adminScope: string;
+        apiKeys: string;
+        jwtSecret?: string;
+        jwtPublicKey?: string;
+        jwtIssuer?: string;
+        jwtAudience?: string;
+    };
+    logging: {
+        level: (typeof LOG_LEVELS)[number];
+        directory: string;
+        maxFileSize: number;
+        retentionDays: number;
+    };
+    pendingOperationInterval: number;
+    jobs: {
+        concurrency: number;
+        pollInterval: number;
+        maxAttempts: number;
+        timeout: number;
+        callbackTimeoutMs: number;
+        callbackHosts: string[];
+        callbackSecret?: string;
+        retention: number;
+    };
+    webhooks: {
+        subscriptions: WebhookSubscription[];
+        pollInterval: number;
+        maxAttempts: number;
+        timeoutMs: number;
+    };
+    reconciliation: {
+        interval: number;
+        gracePeriod: number;
+        dryRun: boolean;
+    };
+    readinessTimeoutMs: number;
+}
+
+/**
+ * Thrown when the configuration is invalid. Lists every problem found, not just the first.
+ */
+class ConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super("Invalid configuration:\n" + problems.map(problem => `  - ${problem}`).join('\n'));
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+/**
+ * Reads settings from a flat map of variable names to values, collecting a problem for each invalid one.
+ */
+class SettingsReader {
+    readonly problems: string[] = [];
+    readonly known = new Set<string>();
+
+    constructor(private readonly source: Record<string, string | undefined>) {}
+
+    private raw(name: string): string | undefined {
+        this.known.add(name);
+        return this.source[name];
+    }
+
+    optionalString(name: string): string | undefined {
+        const value = this.raw(name)?.trim();
+        return value ? value : undefined;
+    }
+
+    string(name: string, fallback: string): string {
+        return this.optionalString(name) ?? fallback;
+    }
+
+    integer(name: string, fallback: number, min: number = 0, max: number = Number.MAX_SAFE_INTEGER): number {
+        const value = this.optionalString(name);
+
+        if (value === undefined) {
+            return fallback;
+        }
+
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+            const range = max === Number.MAX_SAFE_INTEGER ? `of at least ${min}` : `between ${min} and ${max}`;
+            this.problems.push(`${name} has to be a whole number ${range}, got "${value}".`);
+            return fallback;
+        }
+
+        return parsed;
+    }
+
+    boolean(name: string, fallback: boolean): boolean {
+        const value = this.optionalString(name);
+
+        if (value === undefined) {
+            return fallback;
+        }
+
+        if (value !== 'true' && value !== 'false') {
+            this.problems.push(`${name} has to be "true" or "false", got "${value}".`);
+            return fallback;
+        }
+
+        return value === 'true';
+    }
+
+    oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+        const value = this.optionalString(name);
+
+        if (value === undefined) {
+            return fallback;
+        }
+
+        if (!allowed.includes(value as T)) {
+            this.problems.push(`${name} has to be one of ${allowed.join(', ')}, got "${value}".`);
+            return fallback;
+        }
+
+        return value as T;
+    }
+
+    list<T extends string>(name: string, allowed: readonly T[], fallback: T[]): T[] {
+        const value = this.raw(name);
+
+        if (value === undefined) {
+            return fallback;
+        }
+
+        const entries = value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+        const unknown = entries.filter(entry => !allowed.includes(entry as T));
+
+        if (unknown.length > 0) {
+            this.problems.push(`${name} may only contain ${allowed.join(', ')}, got ${unknown.map(entry => `"${entry}"`).join(', ')}.`);
+            return fallback;
+        }
+
+        return entries as T[];
+    }
+
+    url(name: string): string | undefined {
+        const value = this.optionalString(name);
+
+        if (value === undefined) {
+            return undefined;
+        }
+
+        try {
+            const parsed = new URL(value);
+            if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+                throw new Error();
+            }
+        } catch (error) {
+            this.problems.push(`${name} has to be an http or https URL, got "${value}".`);
+            return undefined;
+        }
+
+        return value.replace(/\/+$/, '');
+    }
+}
+
+/**
+ * Reads the optional JSON config file named by CONFIG_FILE. It holds settings under the same names as the environment
+ * variables, e.g. `{ "PORT": 8080, "S3_BUCKET": "browsebox-images" }`.
+ *
+ * @param {string} path - The path of the config file.
+ * @param {string[]} problems - Collects the problems found in the file.
+ * @return {Record<string, string>} - The settings in the file, as strings.
+ */
+function readConfigFile(path: string, problems: string[]): Record<string, string> {
+    let contents: unknown;
+
+    try {
+        contents = JSON.parse(fs.readFileSync(path, 'utf8'));
+    } catch (error) {
+        problems.push(`CONFIG_FILE ${path} could not be read: ${error instanceof Error ? error.message : error}`);
+        return {};
+    }
+
+    if (typeof contents !== 'object' || contents === null || Array.isArray(contents)) {
+        problems.push(`CONFIG_FILE ${path} has to contain a JSON object.`);
+        return {};
+    }
+
+    const settings: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(contents)) {
+        if (Array.isArray(value)) {
+            settings[name] = value.join(',');
+        } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+            settings[name] = String(value);
+        } else {
+            problems.push(`${name} in CONFIG_FILE has to be a string, number, boolean or list.`);
+        }
+    }
+
+    return settings;
+}
+
+/**
+ * Reads the webhook subscriptions. WEBHOOKS names them, e.g. "listings,search", and each one is configured with
+ * WEBHOOK_<NAME>_URL, WEBHOOK_<NAME>_SECRET and optionally WEBHOOK_<NAME>_EVENTS, which defaults to every event.
+ *
+ * @param {SettingsReader} read - The settings reader.
+ * @return {WebhookSubscription[]} - The subscriptions.
+ */
+function readWebhookSubscriptions(read: SettingsReader): WebhookSubscription[] {
+    const names = read.string('WEBHOOKS', "").split(',').map(name => name.trim()).filter(name => name.length > 0);
+    const subscriptions: WebhookSubscription[] = [];
+
+    for (const name of names) {
+        if (!/^[a-z0-9_]+$/i.test(name)) {
+            read.problems.push(`WEBHOOKS may only contain letters, digits and underscores, got "${name}".`);
+            continue;
+        }
+
+        const prefix = `WEBHOOK_${name.toUpperCase()}`;
+        const url = read.url(`${prefix}_URL`);
+        const secret = read.optionalString(`${prefix}_SECRET`);
+        const events = read.list(`${prefix}_EVENTS`, WEBHOOK_EVENTS, [...WEBHOOK_EVENTS]);
+
+        if (!url || !secret) {
+            read.problems.push(`${prefix}_URL and ${prefix}_SECRET are required for the webhook ${name}.`);
+            continue;
+        }
+
+        subscriptions.push({ name, url, secret, events });
+    }
+
+    return subscriptions;
+}
+
+/**
+ * Loads and validates the configuration. Environment variables, including those from .env, take precedence over the
+ * config file, which takes precedence over the defaults.
+ *
+ * @param {NodeJS.ProcessEnv} [env] - The environment to read from.
+ * @return {Config} - The validated configuration.
+ * @throws {ConfigError} - If any setting is invalid.
+ */
+function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+    const fileProblems: string[] = [];
+    const fileSettings = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE, fileProblems) : {};
+    const read = new SettingsReader({ ...fileSettings, ...env });
+
+    const jwtPublicKeyFile = read.optionalString('AUTH_JWT_PUBLIC_KEY_FILE');
+    let jwtPublicKey = read.optionalString('AUTH_JWT_PUBLIC_KEY')?.replace(/\\n/g, '\n');
+
+    if (jwtPublicKeyFile) {
+        try {
+            jwtPublicKey = fs.readFileSync(jwtPublicKeyFile, 'utf8');
+        } catch (error) {
+            read.problems.push(`AUTH_JWT_PUBLIC_KEY_FILE ${jwtPublicKeyFile} could not be read.`);
+        }
+    }
+
+    const config: Config = {
+        port: read.integer('PORT', 7355, 1, 65535),
+        rateLimit: {
+            window: read.integer('RATE_LIMIT_WINDOW', 60, 1),
+            max: read.integer('RATE_LIMIT_MAX', 100, 1),
+        },
+        uploads: {
+            maxFileSize: read.integer('MAX_UPLOAD_SIZE', 10 * 1024 * 1024, 1),
+            formats: read.list('UPLOAD_FORMATS', UPLOAD_FORMATS, ['jpeg', 'png', 'webp', 'avif']),
+            maxImageDimension: read.integer('MAX_IMAGE_DIMENSION', 10000, 1),
+            maxImagePixels: read.integer('MAX_IMAGE_PIXELS', 40000000, 1),
+            directUploadTtl: read.integer('DIRECT_UPLOAD_TTL', 900, 1),
+            pendingUploadSweepInterval: read.integer('PENDING_UPLOAD_SWEEP_INTERVAL', 300, 1),
+            abandonedUploadTimeout: read.integer('ABANDONED_UPLOAD_TIMEOUT', 600, 1),
+            batchConcurrency: read.integer('BATCH_UPLOAD_CONCURRENCY', 4, 1, 32),
+        },
+        images: {
+            variants: read.string('IMAGE_VARIANTS', "thumb:150,card:400,detail:1200"),
+            formats: read.list('IMAGE_FORMATS', CONVERSION_FORMATS, ['webp', 'avif']),
+            webpQuality: read.integer('WEBP_QUALITY', 80, 1, 100),
+            avifQuality: read.integer('AVIF_QUALITY', 50, 1, 100),
+            metadataAllowlist: read.list('IMAGE_METADATA_ALLOWLIST', METADATA_CATEGORIES, ['icc']),
+            signedUrlTtl: read.integer('SIGNED_URL_TTL', 300, 1),
+        },
+        transforms: {
+            presets: read.string('IMAGE_PRESETS', ""),
+            cacheSize: read.integer('TRANSFORM_CACHE_SIZE', 64 * 1024 * 1024),
+            maxAge: read.integer('TRANSFORM_MAX_AGE', 86400),
+        },
+        storage: {
+            backend: read.oneOf('STORAGE_BACKEND', STORAGE_BACKENDS, 's3'),
+            publicUrl: read.url('STORAGE_PUBLIC_URL'),
+            cdnUrl: read.url('CDN_URL'),
+            localPath: read.string('STORAGE_LOCAL_PATH', "./uploads"),
+            signingSecret: read.optionalString('STORAGE_SIGNING_SECRET'),
+            s3: {
+                bucket: read.string('S3_BUCKET', ""),
+                region: read.string('S3_REGION', "us-west-2"),
+                accessKeyId: read.optionalString('S3_KEY'),
+                secretAccessKey: read.optionalString('S3_SECRET'),
+                endpoint: read.url('S3_ENDPOINT'),
+                forcePathStyle: read.boolean('S3_FORCE_PATH_STYLE', false),
+            },
+        },
+        auth: {
+            disabled: read.boolean('AUTH_DISABLED', false),
+            adminScope: read.string('AUTH_ADMIN_SCOPE', "admin"),
+            apiKeys: read.string('AUTH_API_KEYS', ""),
+            jwtSecret: read.optionalString('AUTH_JWT_SECRET'),
+            jwtPublicKey,
+            jwtIssuer: read.optionalString('AUTH_JWT_ISSUER'),
+            jwtAudience: read.optionalString('AUTH_JWT_AUDIENCE'),
+        },
+        logging: {
+            level: read.oneOf('LOG_LEVEL', LOG_LEVELS, 'verbose'),
+            directory: read.string('LOG_DIRECTORY', "./logs/"),
+            maxFileSize: read.integer('LOG_MAX_SIZE', 10 * 1024 * 1024, 1),
+            retentionDays: read.integer('LOG_RETENTION_DAYS', 14, 1),
+        },
+        pendingOperationInterval: read.integer('PENDING_OPERATION_INTERVAL', 60, 1),
+        jobs: {
+            concurrency: read.integer('JOB_CONCURRENCY', 2, 1, 32),
+            pollInterval: read.integer('JOB_POLL_INTERVAL', 5, 1),
+            maxAttempts: read.integer('JOB_MAX_ATTEMPTS', 5, 1),
+            timeout: read.integer('JOB_TIMEOUT', 300, 1),
+            callbackTimeoutMs: read.integer('JOB_CALLBACK_TIMEOUT', 5000, 1),
+            callbackHosts: read.string('JOB_CALLBACK_HOSTS', "").split(',').map(host => host.trim().toLowerCase()).filter(host => host.length > 0),
+            callbackSecret: read.optionalString('JOB_CALLBACK_SECRET'),
+            retention: read.integer('JOB_RETENTION', 7 * 86400, 1),
+        },
+        webhooks: {
+            subscriptions: readWebhookSubscriptions(read),
+            pollInterval: read.integer('WEBHOOK_POLL_INTERVAL', 5, 1),
+            maxAttempts: read.integer('WEBHOOK_MAX_ATTEMPTS', 10, 1),
+            timeoutMs: read.integer('WEBHOOK_TIMEOUT', 5000, 1),
+        },
+        reconciliation: {
+            interval: read.integer('RECONCILE_INTERVAL', 86400),
+            gracePeriod: read.integer('RECONCILE_GRACE_PERIOD', 86400),
+            dryRun: read.boolean('RECONCILE_DRY_RUN', true),
+        },
+        readinessTimeoutMs: read.integer('READINESS_TIMEOUT', 2000, 1),
+    };
+
+    const problems = [...fileProblems, ...read.problems];
+
+    // Unknown names in the file are most likely typos, which would otherwise silently fall back to the default.
+    for (const name of Object.keys(fileSettings).filter(name => !read.known.has(name))) {
+        problems.push(`CONFIG_FILE contains an unknown setting: ${name}.`);
+    }
+    const { s3 } = config.storage;
+
+    if (config.storage.backend === 's3' && !s3.bucket) {
+        problems.push("S3_BUCKET is required when STORAGE_BACKEND is s3.");
+    }
+
+    // Signed URLs have to keep working across restarts and on every instance. In-memory storage loses its files on
+    // restart anyway, so it can do with a secret of its own.
+    if (config.storage.backend === 'local' && !config.storage.signingSecret) {
+        problems.push("STORAGE_SIGNING_SECRET is required when STORAGE_BACKEND is local.");
+    }
+
+    // Without either, the AWS SDK falls back to its default credential chain, e.g. an instance role.
+    if (!s3.accessKeyId !== !s3.secretAccessKey) {
+        problems.push("S3_KEY and S3_SECRET have to be set together.");
+    }
+
+    // Callbacks are signed like webhooks, so receivers can tell they came from the indexer.
+    if (config.jobs.callbackHosts.length > 0 && !config.jobs.callbackSecret) {
+        problems.push("JOB_CALLBACK_SECRET is required when JOB_CALLBACK_HOSTS is set.");
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+
+    return config;
+}
+
+/**
+ * Checks that requests can be authenticated. Kept out of loadConfig, since command line tools like the reconcile CLI
+ * never authenticate a request and should not need the settings.
+ *
+ * @param {Config} config - The loaded configuration.
+ * @throws {ConfigError} - If no way to authenticate is configured.
+ */
+function checkAuthConfig(config: Config): void {
+    const { auth } = config;
+
+    if (!auth.disabled && !auth.jwtSecret && !auth.jwtPublicKey && !auth.apiKeys) {
+        throw new ConfigError(["No way to authenticate is configured. Set AUTH_JWT_SECRET, AUTH_JWT_PUBLIC_KEY or AUTH_API_KEYS, or AUTH_DISABLED for local development."]);
+    }
+}
+
+/**
+ * The configuration of the running indexer, loaded once at startup.
+ * @type {Config}
+ */
+const config: Config = loadConfig();
+
+export { WEBHOOK_EVENTS, WebhookSubscription, Config, ConfigError, config, loadConfig, checkAuthConfig };
@@ -0,0 +1,205 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { PrismaClient, Prisma, listing } from '@prisma/client';
+import { log } from './utils/Logger.ts';
+import { trackQueryErrors } from './utils/Metrics.ts';
+import { commitImageWrite } from './PendingOperations.ts';
+import { recordImageEvent } from './Webhooks.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+/**
+ * The maximum number of images a single listing gallery can hold.
+ * @type {number}
+ */
+const MAX_GALLERY_SIZE: number = 10;
+
+/**
+ * Thrown when a gallery is reordered with an order that does not list every current index exactly once.
+ */
+class InvalidOrderError extends Error {
+    constructor() {
+        super("Order must contain every current image index exactly once.");
+        this.name = 'InvalidOrderError';
+    }
+}
+
+/**
+ * Thrown when an image is appended to a gallery that is already full.
+ */
+class GalleryFullError extends Error {
+    constructor() {
+        super(`Listing galleries are limited to ${MAX_GALLERY_SIZE} images.`);
+        this.name = 'GalleryFullError';
+    }
+}
+
+/**
+ * Fetches every image of a listing, ordered by index.
+ *
+ * @param {number} listingId - The listing ID.
+ * @return {Promise<listing[]>} - The listing images in display order.
+ */
+async function getGallery(listingId: number): Promise<listing[]> {
+    return prisma.listing.findMany({
+        where: {
+            listingId
+        },
+        orderBy: {
+            index: 'asc'
+        }
+    });
+}
+
+/**
+ * Finds the index a newly appended image should be stored at.
+ *
+ * @param {number} listingId - The listing ID.
+ * @param {Prisma.TransactionClient} [client] - The transaction to look in, so the index is found where it is used.
+ * @return {Promise<number>} - The index directly after the last image, or 0 for an empty gallery.
+ */
+async function nextGalleryIndex(listingId: number, client: Prisma.TransactionClient = prisma): Promise<number> {
+    const last = await client.listing.findFirst({
+        where: {
+            listingId
+        },
+        orderBy: {
+            index: 'desc'
+        }
+    });
+
+    return last ? last.index + 1 : 0;
+}
+
+/**
+ * Reorders the images of a listing.
+ *
+ * Each entry of `order` is the current index of an image, and its position in the array is the index it will be moved to.
+ * The order must contain every current index exactly once. Images are first moved to temporary negative indexes so the
+ * composite primary key is never violated while slots are being swapped. Every image that moves is reported as updated,
+ * with its old and new index.
+ *
+ * @param {number} listingId - The listing ID.
+ * @param {number[]} order - The current indexes in their new order.
+ * @return {Promise<listing[]>} - The reordered listing images.
+ * @throws {InvalidOrderError} - If the order is not a permutation of the current indexes.
+ */
+async function reorderGallery(listingId: number, order: number[]): Promise<listing[]> {
+    return prisma.$transaction(async (tx) => {
+        const images = await tx.listing.findMany({
+            where: {
+                listingId
+            }
+        });
+
+        const current = images.map(image => image.index).sort((a, b) => a - b);
+        const requested = [...order].sort((a, b) => a - b);
+
+        if (current.length !== requested.length || current.some((index, i) => index !== requested[i])) {
+            throw new InvalidOrderError();
+        }
+
+        for (let i = 0; i < order.length; i++) {
+            await tx.listing.update({
+                where: {
+                    listingId_index: { listingId, index: order[i] }
+                },
+                data: {
+                    index: -(i + 1)
+                }
+            });
+        }
+
+        for (let i = 0; i < order.length; i++) {
+            await tx.listing.update({
+                where: {
+                    listingId_index: { listingId, index: -(i + 1) }
+                },
+                data: {
+                    index: i
+                }
+            });
+        }
+
+        log(`Reordered ${order.length} images for listing ${listingId}.`);
+
+        const reordered = await tx.listing.findMany({
+            where: {
+                listingId
+            },
+            orderBy: {
+                index: 'asc'
+            }
+        });
+
+        for (const image of reordered) {
+            const old = images.find(previous => previous.index === order[image.index]);
+
+            if (old && old.index !== image.index) {
+                await recordImageEvent(tx, 'image.updated', { type: 'listing', id: listingId, index: image.index }, { old, new: image });
+            }
+        }
+
+        return reordered;
+    });
+}
+
+/**
+ * Removes a single image from a listing and compacts the remaining indexes so the gallery has no gaps.
+ *
+ * The removed image is released once the removal has committed. Besides its deletion, every image that moves down is
+ * reported as updated, with its old and new index.
+ *
+ * @param {number} listingId - The listing ID.
+ * @param {number} index - The index of the image to remove.
+ * @return {Promise<listing | null>} - The removed image, or null if the slot was empty.
+ */
+async function removeGalleryImage(listingId: number, index: number): Promise<listing | null> {
+    return commitImageWrite(null, async (tx) => {
+        const removed = await tx.listing.findUnique({
+            where: {
+                listingId_index: { listingId, index }
+            }
+        });
+
+        if (!removed) {
+            return null;
+        }
+
+        await tx.listing.delete({
+            where: {
+                listingId_index: { listingId, index }
+            }
+        });
+        await recordImageEvent(tx, 'image.deleted', { type: 'listing', id: listingId, index }, { old: removed });
+
+        const following = await tx.listing.findMany({
+            where: {
+                listingId,
+                index: { gt: index }
+            },
+            orderBy: {
+                index: 'asc'
+            }
+        });
+
+        for (const image of following) {
+            const moved = await tx.listing.update({
+                where: {
+                    listingId_index: { listingId, index: image.index }
+                },
+                data: {
+                    index: image.index - 1
+                }
+            });
+            await recordImageEvent(tx, 'image.updated', { type: 'listing', id: listingId, index: moved.index }, { old: image, new: moved });
+        }
+
+        log(`Removed image ${index} from listing ${listingId} and compacted ${following.length} images.`);
+
+        return removed;
+    }, removed => removed ? [{ action: 'release', key: removed.image, variants: removed.variants }] : []);
+}
+
+export { MAX_GALLERY_SIZE, GalleryFullError, InvalidOrderError, getGallery, nextGalleryIndex, reorderGallery, removeGalleryImage };
@@ -0,0 +1,518 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import sharp from 'sharp';
+import crypto from 'crypto';
+
+import { Response } from 'express';
+
+import { Prisma } from '@prisma/client';
+import { storage } from './storage/Storage.ts';
+import { Visibility } from './storage/StorageBackend.ts';
+import { log, LogLevel } from './utils/Logger.ts';
+import { imageProcessingDuration } from './utils/Metrics.ts';
+import { config } from './Config.ts';
+import { generateImageKey } from './utils/KeyGeneration.ts';
+import { negotiateFormat } from './utils/FormatNegotiation.ts';
+import { encodeBlurHash } from './utils/BlurHash.ts';
+
+/**
+ * A size variant generated for every uploaded image.
+ * A width of null keeps the original dimensions.
+ */
+interface ImageVariant {
+    name: string;
+    width: number | null;
+}
+
+/**
+ * A modern format every variant is additionally encoded to.
+ */
+interface ImageFormat {
+    name: 'webp' | 'avif';
+    quality: number;
+}
+
+/**
+ * A kind of metadata that can be kept on processed images. Everything else is stripped.
+ */
+type MetadataCategory = 'icc' | 'exif';
+
+/**
+ * A record of what the pipeline did to an upload, stored alongside the image as JSON.
+ */
+type ImageProcessing = {
+    orientation: number | null;
+    metadataStripped: boolean;
+    keptMetadata: MetadataCategory[];
+    removedMetadata: string[];
+};
+
+/**
+ * The dimensions, byte size and format of a stored original, after it was rotated and stripped of metadata.
+ */
+interface ImageInfo {
+    width: number;
+    height: number;
+    size: number;
+    format: string;
+}
+
+/**
+ * What clients can render while an image loads: a BlurHash, a tiny WebP as a data URI, and the dominant colour as a
+ * hex code, e.g. "#a0b1c2".
+ */
+interface ImagePlaceholder {
+    blurhash: string;
+    placeholder: string;
+    dominantColor: string;
+}
+
+/**
+ * The keys of a stored image, mapped by size variant and then by format.
+ */
+type VariantKeys = Record<string, Record<string, string>>;
+
+/**
+ * A single object that has to be written to storage.
+ */
+interface ProcessedObject {
+    key: string;
+    buffer: Buffer;
+    contentType: string;
+}
+
+/**
+ * The result of running an upload through the pipeline.
+ */
+interface ProcessedImage {
+    hash: string;
+    key: string;
+    variants: VariantKeys;
+    processing: ImageProcessing;
+    info: ImageInfo;
+    placeholder: ImagePlaceholder;
+    objects: ProcessedObject[];
+}
+
+/**
+ * How a stored image should be turned into URLs for a caller.
+ */
+interface UrlOptions {
+    size?: string;
+    accept?: string;
+    format?: string;
+    visibility?: string;
+}
+
+/**
+ * The URLs of a stored image, as returned to clients.
+ * Private images get signed URLs that stop working at `expiresAt`.
+ */
+interface ImageUrls {
+    imageUrl: string;
+    format: string;
+    variants: Record<string, string>;
+    expiresAt?: string;
+}
+
+/**
+ * The name of the variant that holds the unresized image.
+ * @type {string}
+ */
+const ORIGINAL_VARIANT: string = "original";
+
+/**
+ * Parses the configured variants, e.g. "thumb:150,card:400,detail:1200".
+ * The original variant is always generated, regardless of configuration.
+ *
+ * @return {ImageVariant[]} - The variants to generate for each upload.
+ * @throws {Error} - If a variant definition is malformed.
+ */
+function getVariantConfig(): ImageVariant[] {
+    const variants: ImageVariant[] = [];
+
+    for (const definition of config.images.variants.split(',').map(value => value.trim()).filter(value => value.length > 0)) {
+        const [name, width] = definition.split(':');
+        const parsedWidth = parseInt(width);
+
+        if (!/^[a-z0-9-]+$/.test(name) || name === ORIGINAL_VARIANT || isNaN(parsedWidth) || parsedWidth <= 0) {
+            throw new Error(`Invalid image variant definition: ${definition}`);
+        }
+
+        variants.push({ name, width: parsedWidth });
+    }
+
+    variants.push({ name: ORIGINAL_VARIANT, width: null });
+    return variants;
+}
+
+const variantConfig: ImageVariant[] = getVariantConfig();
+
+// The formats to encode each variant to, along with their encoder quality.
+const formatConfig: ImageFormat[] = config.images.formats.map(name => ({
+    name,
+    quality: name === 'webp' ? config.images.webpQuality : config.images.avifQuality,
+}));
+
+// The kinds of metadata to keep on processed images. An empty list strips all metadata.
+const metadataAllowlist: MetadataCategory[] = config.images.metadataAllowlist;
+
+// How long the signed URLs of private images stay valid, in seconds.
+const signedUrlTtl: number = config.images.signedUrlTtl;
+
+// The BlurHash is encoded from a thumbnail that fits in this many pixels, with 4 by 3 components, which is the
+// recommended default and keeps the hash at 28 characters.
+const BLURHASH_SIZE: number = 32;
+const BLURHASH_COMPONENTS_X: number = 4;
+const BLURHASH_COMPONENTS_Y: number = 3;
+
+// The low-quality placeholder fits in this many pixels, which keeps its data URI at a few hundred bytes.
+const PLACEHOLDER_WIDTH: number = 16;
+const PLACEHOLDER_QUALITY: number = 40;
+
+/**
+ * Gets the format of a stored object from its key extension.
+ *
+ * @param {string} key - The image key.
+ * @return {string} - The format name, e.g. "jpeg".
+ */
+function getKeyFormat(key: string): string {
+    return key.substring(key.lastIndexOf('.') + 1);
+}
+
+/**
+ * Hashes an upload. The hash is what makes image keys content-addressed.
+ *
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @return {string} - The hex encoded SHA-256 hash.
+ */
+function hashImage(buffer: Buffer): string {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Opens an upload for processing. The EXIF orientation is applied to the pixels first, so the image stays upright once
+ * the orientation tag is stripped along with the rest of the metadata. Only allowlisted metadata is written out.
+ *
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @return {sharp.Sharp} - The image, ready to be resized and encoded.
+ */
+function prepareImage(buffer: Buffer): sharp.Sharp {
+    const image = sharp(buffer).rotate();
+
+    if (metadataAllowlist.includes('icc')) {
+        image.keepIccProfile();
+    }
+
+    if (metadataAllowlist.includes('exif')) {
+        image.keepExif();
+    }
+
+    return image;
+}
+
+/**
+ * Works out what preparing an upload changes, so it can be recorded with the stored image.
+ *
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @return {Promise<ImageProcessing>} - The orientation that was applied and the metadata that was removed.
+ */
+async function describeProcessing(buffer: Buffer): Promise<ImageProcessing> {
+    const metadata = await sharp(buffer).metadata();
+    const present: Record<string, boolean> = {
+        exif: metadata.exif !== undefined,
+        icc: metadata.icc !== undefined,
+        iptc: metadata.iptc !== undefined,
+        xmp: metadata.xmp !== undefined,
+        photoshop: metadata.tifftagPhotoshop !== undefined,
+    };
+
+    return {
+        orientation: metadata.orientation ?? null,
+        metadataStripped: true,
+        keptMetadata: metadataAllowlist,
+        removedMetadata: Object.keys(present).filter(name => present[name] && !metadataAllowlist.includes(name as MetadataCategory)),
+    };
+}
+
+/**
+ * Computes the placeholders of an image. The BlurHash is encoded from a thumbnail, since encoding visits every pixel
+ * once per component.
+ *
+ * @param {Buffer} buffer - The stored original, already rotated.
+ * @return {Promise<ImagePlaceholder>} - The BlurHash, the data URI of a tiny WebP, and the dominant colour.
+ */
+async function describePlaceholder(buffer: Buffer): Promise<ImagePlaceholder> {
+    const thumbnail = await sharp(buffer)
+        .resize({ width: BLURHASH_SIZE, height: BLURHASH_SIZE, fit: 'inside' })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const blurhash = encodeBlurHash(thumbnail.data, thumbnail.info.width, thumbnail.info.height, thumbnail.info.channels, BLURHASH_COMPONENTS_X, BLURHASH_COMPONENTS_Y);
+
+    const preview = await sharp(buffer)
+        .resize({ width: PLACEHOLDER_WIDTH, height: PLACEHOLDER_WIDTH, fit: 'inside' })
+        .webp({ quality: PLACEHOLDER_QUALITY })
+        .toBuffer();
+
+    const { dominant } = await sharp(buffer).stats();
+    const dominantColor = '#' + [dominant.r, dominant.g, dominant.b].map(channel => channel.toString(16).padStart(2, '0')).join('');
+
+    return { blurhash, placeholder: `data:image/webp;base64,${preview.toString('base64')}`, dominantColor };
+}
+
+/**
+ * Hashes an upload and generates every configured size variant, each in the source format and every configured
+ * conversion format. Every variant is auto-oriented and stripped of metadata that is not allowlisted. The placeholders
+ * are computed from the original variant.
+ *
+ * @param {string} type - The image type, either "profile" or "listing".
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @param {string} mimetype - The MIME type of the uploaded file.
+ * @return {Promise<ProcessedImage>} - The keys and buffers for every variant.
+ */
+async function processImage(type: string, buffer: Buffer, mimetype: string): Promise<ProcessedImage> {
+    const hash = hashImage(buffer);
+    log(`Image hash: ${hash}`);
+
+    const stopTimer = imageProcessingDuration.startTimer({ type });
+
+    const processing = await describeProcessing(buffer);
+    if (processing.removedMetadata.length > 0) {
+        log(`Stripping image metadata: ${processing.removedMetadata.join(', ')}`);
+    }
+
+    const sourceFormat = mimetype.split('/')[1];
+    const variants: VariantKeys = {};
+    const objects: ProcessedObject[] = [];
+
+    for (const variant of variantConfig) {
+        const variantName = variant.name === ORIGINAL_VARIANT ? undefined : variant.name;
+        const image = prepareImage(buffer);
+
+        if (variant.width !== null) {
+            image.resize({ width: variant.width, withoutEnlargement: true });
+        }
+
+        const key = generateImageKey(type, hash, mimetype, variantName);
+        objects.push({ key, buffer: await image.clone().toBuffer(), contentType: mimetype });
+        variants[variant.name] = { [sourceFormat]: key };
+
+        for (const format of formatConfig) {
+            // The source already is this format, so converting it again would only lose quality.
+            if (format.name === sourceFormat) {
+                continue;
+            }
+
+            const formatKey = generateImageKey(type, hash, `image/${format.name}`, variantName);
+            const encoded = format.name === 'webp'
+                ? await image.clone().webp({ quality: format.quality }).toBuffer()
+                : await image.clone().avif({ quality: format.quality }).toBuffer();
+
+            objects.push({ key: formatKey, buffer: encoded, contentType: `image/${format.name}` });
+            variants[variant.name][format.name] = formatKey;
+        }
+
+        log(`Generated ${variant.name} variant in ${Object.keys(variants[variant.name]).join(', ')}.`);
+    }
+
+    stopTimer();
+
+    const key = variants[ORIGINAL_VARIANT][sourceFormat];
+    const original = objects.find(object => object.key === key) as ProcessedObject;
+    const { width, height } = await sharp(original.buffer).metadata();
+    const info: ImageInfo = { width: width ?? 0, height: height ?? 0, size: original.buffer.length, format: sourceFormat };
+    const placeholder = await describePlaceholder(original.buffer);
+
+    return { hash, key, variants, processing, info, placeholder, objects };
+}
+
+/**
+ * Checks whether a value is a supported image visibility.
+ *
+ * @param {unknown} visibility - The value to check.
+ * @return {boolean} - Returns true for "public" and "private", false otherwise.
+ */
+function isVisibility(visibility: unknown): visibility is Visibility {
+    return visibility === 'public' || visibility === 'private';
+}
+
+/**
+ * Uploads every variant of a processed image.
+ *
+ * @param {ProcessedImage} image - The processed image.
+ * @param {Visibility} [visibility] - Who can read the image. Defaults to public.
+ * @throws {Error} - If any upload fails.
+ */
+async function storeProcessedImage(image: ProcessedImage, visibility: Visibility = 'public'): Promise<void> {
+    for (const object of image.objects) {
+        await storage.upload(object.key, object.buffer, object.contentType, visibility);
+    }
+}
+
+/**
+ * Reads a stored variant map into its size and format structure.
+ * Rows created before variants existed only have the original key, and rows created before format conversion map
+ * each size directly to a key in the source format.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} variants - The stored variant map.
+ * @return {VariantKeys} - The keys of the image by size and format.
+ */
+function normaliseVariants(key: string, variants: Prisma.JsonValue | null): VariantKeys {
+    const normalised: VariantKeys = { [ORIGINAL_VARIANT]: { [getKeyFormat(key)]: key } };
+
+    if (!variants || typeof variants !== 'object' || Array.isArray(variants)) {
+        return normalised;
+    }
+
+    for (const [size, value] of Object.entries(variants)) {
+        if (typeof value === 'string') {
+            normalised[size] = { ...normalised[size], [getKeyFormat(value)]: value };
+        } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+            for (const [format, formatKey] of Object.entries(value)) {
+                if (typeof formatKey === 'string') {
+                    normalised[size] = { ...normalised[size], [format]: formatKey };
+                }
+            }
+        }
+    }
+
+    return normalised;
+}
+
+/**
+ * Lists every storage key belonging to a stored image.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} variants - The stored variant map.
+ * @return {string[]} - The unique keys of the image and its variants.
+ */
+function getImageKeys(key: string, variants: Prisma.JsonValue | null): string[] {
+    const keys = new Set<string>([key]);
+
+    for (const formats of Object.values(normaliseVariants(key, variants))) {
+        for (const formatKey of Object.values(formats)) {
+            keys.add(formatKey);
+        }
+    }
+
+    return [...keys];
+}
+
+/**
+ * Deletes an image and all of its variants from storage.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} variants - The stored variant map.
+ * @throws {Error} - If any deletion fails.
+ */
+async function deleteImageVariants(key: string, variants: Prisma.JsonValue | null): Promise<void> {
+    for (const variantKey of getImageKeys(key, variants)) {
+        await storage.delete(variantKey);
+    }
+}
+
+/**
+ * Changes who can read an image and all of its variants.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} variants - The stored variant map.
+ * @param {Visibility} visibility - The new visibility.
+ * @throws {Error} - If any object could not be updated.
+ */
+async function setImageVisibility(key: string, variants: Prisma.JsonValue | null, visibility: Visibility): Promise<void> {
+    for (const variantKey of getImageKeys(key, variants)) {
+        await storage.setVisibility(variantKey, visibility);
+    }
+}
+
+/**
+ * Checks whether a requested size matches a configured variant.
+ *
+ * @param {string} size - The requested variant name.
+ * @return {boolean} - Returns true if the variant exists, false otherwise.
+ */
+function isKnownVariant(size: string): boolean {
+    return variantConfig.some(variant => variant.name === size);
+}
+
+/**
+ * Rejects requests for a size variant that is not configured.
+ *
+ * @param {string | undefined} size - The requested size.
+ * @param {Response} res - The Express Response object.
+ * @return {boolean} - Returns true if the size is known or not given, false if a rejection has been sent.
+ */
+function checkSize(size: string | undefined, res: Response): boolean {
+    if (size && !isKnownVariant(size)) {
+        res.status(400).json({ message: "Unknown image size.", code: "UNKNOWN_SIZE" });
+        log("Unknown image size. Aborting.", LogLevel.WARNING, { size });
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Builds the URLs of a stored image in the best format the caller supports.
+ * Public images get permanent URLs, private images get signed URLs that expire.
+ *
+ * @param {string} key - The original image key.
+ * @param {Prisma.JsonValue | null} variants - The stored variant map.
+ * @param {UrlOptions} [options] - The requested size, the caller's Accept header, a format override and the image visibility.
+ * @return {Promise<ImageUrls>} - The selected URL, its format and a map of every variant URL in that format.
+ */
+async function resolveImageUrls(key: string, variants: Prisma.JsonValue | null, options: UrlOptions = {}): Promise<ImageUrls> {
+    const keys = normaliseVariants(key, variants);
+    const sourceFormat = getKeyFormat(key);
+    const isPrivate = options.visibility === 'private';
+
+    // Only formats that every size was encoded to are offered, so all URLs in the response share one format.
+    const available = Object.values(keys).reduce<string[]>(
+        (formats, sizeKeys) => formats.filter(name => name in sizeKeys),
+        Object.keys(keys[ORIGINAL_VARIANT])
+    );
+    const selectedFormat = negotiateFormat(options.accept, available, sourceFormat, options.format);
+
+    const urls: Record<string, string> = {};
+    for (const [name, formats] of Object.entries(keys)) {
+        const variantKey = formats[selectedFormat] ?? formats[sourceFormat] ?? key;
+        urls[name] = isPrivate ? await storage.signedUrl(variantKey, signedUrlTtl) : storage.publicUrl(variantKey);
+    }
+
+    // Images uploaded before a variant was configured fall back to the original.
+    const imageUrl = options.size && urls[options.size] ? urls[options.size] : urls[ORIGINAL_VARIANT];
+    const result: ImageUrls = { imageUrl, format: selectedFormat, variants: urls };
+
+    if (isPrivate) {
+        result.expiresAt = new Date(Date.now() + signedUrlTtl * 1000).toISOString();
+    }
+
+    return result;
+}
+
+export {
+    ImageVariant,
+    ImageFormat,
+    VariantKeys,
+    MetadataCategory,
+    ImageProcessing,
+    ImageInfo,
+    ImagePlaceholder,
+    ProcessedImage,
+    ImageUrls,
+    ORIGINAL_VARIANT,
+    getKeyFormat,
+    hashImage,
+    processImage,
+    storeProcessedImage,
+    deleteImageVariants,
+    setImageVisibility,
+    getImageKeys,
+    isKnownVariant,
+    checkSize,
+    isVisibility,
+    resolveImageUrls,
+};
@@ -0,0 +1,264 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { PrismaClient, Prisma, profile, listing } from '@prisma/client';
+import { trackQueryErrors } from './utils/Metrics.ts';
+import { RetainedImage } from './Blobs.ts';
+import { FollowUp, commitImageWrite } from './PendingOperations.ts';
+import { recordImageEvent } from './Webhooks.ts';
+import { getKeyFormat } from './ImagePipeline.ts';
+import { Visibility } from './storage/StorageBackend.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+/**
+ * The place an image is stored at: a user's profile, or one index of a listing gallery.
+ */
+type ImageSlot = { type: 'profile', id: number } | { type: 'listing', id: number, index: number };
+
+/**
+ * The row of a profile or listing image.
+ */
+type StoredImage = profile | listing;
+
+/**
+ * Who uploaded an image, and the name of the file they sent. Either is null when it is not known, e.g. for direct
+ * uploads, which never pass through the indexer.
+ */
+interface UploadInfo {
+    originalName: string | null;
+    uploadedBy: string | null;
+}
+
+/**
+ * What callers can know about an image without downloading it, including the placeholders to render while it loads.
+ * Images stored before their dimensions were recorded have null dimensions and size, images stored before placeholders
+ * were computed have null placeholders, and images stored before blobs were tracked also have no hash.
+ */
+interface ImageMetadata {
+    width: number | null;
+    height: number | null;
+    size: number | null;
+    format: string;
+    hash: string | null;
+    blurhash: string | null;
+    placeholder: string | null;
+    dominantColor: string | null;
+    originalName: string | null;
+    uploadedBy: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Thrown when an image is created in a slot that another request filled in the meantime.
+ */
+class SlotTakenError extends Error {
+    constructor(slot: ImageSlot) {
+        super(slot.type === 'profile' ? `Profile ${slot.id} already has an image.` : `Listing ${slot.id} already has an image at index ${slot.index}.`);
+        this.name = 'SlotTakenError';
+    }
+}
+
+/**
+ * Thrown when an image is replaced, but another request replaced or deleted it in the meantime.
+ */
+class ImageChangedError extends Error {
+    constructor(slot: ImageSlot) {
+        super(slot.type === 'profile' ? `The image of profile ${slot.id} was changed by another request.` : `The image of listing ${slot.id} at index ${slot.index} was changed by another request.`);
+        this.name = 'ImageChangedError';
+    }
+}
+
+/**
+ * Lists the storage steps to take once a row points to its new image.
+ *
+ * @param {Object} old - The row as it was before the update.
+ * @param {RetainedImage} image - The new image.
+ * @param {Visibility} visibility - The visibility of the updated row.
+ * @return {FollowUp[]} - Releasing the old image, and hiding the new one again if the row is private.
+ */
+function replacementFollowUps(old: { image: string, variants: Prisma.JsonValue }, image: RetainedImage, visibility: Visibility): FollowUp[] {
+    const followUps: FollowUp[] = [{ action: 'release', key: old.image, variants: old.variants }];
+
+    // The blob may have been public before, e.g. when this row pointed to the same file, so its objects are only
+    // hidden if no other row still needs them public.
+    if (visibility === "private") {
+        followUps.push({ action: 'sync', key: image.key, variants: image.variants });
+    }
+
+    return followUps;
+}
+
+/**
+ * Fetches the image stored in a slot.
+ *
+ * @param {ImageSlot} slot - The profile or listing slot.
+ * @return {Promise<StoredImage | null>} - The row, or null if the slot is empty.
+ */
+async function findImage(slot: ImageSlot): Promise<StoredImage | null> {
+    if (slot.type === 'profile') {
+        return prisma.profile.findUnique({ where: { userId: slot.id } });
+    }
+
+    return prisma.listing.findUnique({ where: { listingId_index: { listingId: slot.id, index: slot.index } } });
+}
+
+/**
+ * Points the row in a slot to a new image, but only if it still holds the image it was read with. The row stays locked
+ * until the transaction ends, so of two requests replacing the same image only the first one succeeds, and the replaced
+ * image is released once rather than twice.
+ *
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {ImageSlot} slot - The profile or listing slot.
+ * @param {StoredImage} existing - The row as it was read before the image was processed.
+ * @param {Object} data - The new image, its visibility, and who uploaded it.
+ * @return {Promise<StoredImage>} - The updated row.
+ * @throws {ImageChangedError} - If the row no longer holds the image it was read with.
+ */
+async function replaceImage(
+    tx: Prisma.TransactionClient,
+    slot: ImageSlot,
+    existing: StoredImage,
+    data: Prisma.profileUpdateManyMutationInput & Prisma.listingUpdateManyMutationInput
+): Promise<StoredImage> {
+    const replaced = slot.type === 'profile'
+        ? await tx.profile.updateMany({ where: { userId: slot.id, image: existing.image }, data })
+        : await tx.listing.updateMany({ where: { listingId: slot.id, index: slot.index, image: existing.image }, data });
+
+    if (replaced.count !== 1) {
+        throw new ImageChangedError(slot);
+    }
+
+    if (slot.type === 'profile') {
+        return tx.profile.findUniqueOrThrow({ where: { userId: slot.id } });
+    }
+
+    return tx.listing.findUniqueOrThrow({ where: { listingId_index: { listingId: slot.id, index: slot.index } } });
+}
+
+/**
+ * Stores a retained image in a slot, replacing the image that is there. The replaced image is released once the write
+ * has committed.
+ *
+ * @param {ImageSlot} slot - The profile or listing slot.
+ * @param {RetainedImage} image - The new image.
+ * @param {Visibility} visibility - The visibility of the row.
+ * @param {StoredImage | null} existing - The row currently in the slot, or null to create one.
+ * @param {UploadInfo} upload - Who uploaded the new image, and its file name.
+ * @param {Object} [alongside] - Another write to commit in the same transaction, and storage steps to take after it.
+ * @return {Promise<StoredImage>} - The written row.
+ * @throws {SlotTakenError} - If the slot was empty but has been filled since.
+ * @throws {ImageChangedError} - If the image in the slot was replaced or deleted since.
+ */
+async function writeImage(
+    slot: ImageSlot,
+    image: RetainedImage,
+    visibility: Visibility,
+    existing: StoredImage | null,
+    upload: UploadInfo,
+    alongside: { write?: (tx: Prisma.TransactionClient) => Promise<unknown>, followUps?: FollowUp[] } = {}
+): Promise<StoredImage> {
+    const data = { image: image.key, variants: image.variants, visibility, ...upload };
+
+    try {
+        return await commitImageWrite<StoredImage>(image, async (tx) => {
+            let written: StoredImage;
+
+            if (existing) {
+                written = await replaceImage(tx, slot, existing, data);
+            } else if (slot.type === 'profile') {
+                written = await tx.profile.create({ data: { userId: slot.id, ...data } });
+            } else {
+                written = await tx.listing.create({ data: { listingId: slot.id, index: slot.index, ...data } });
+            }
+
+            await recordImageEvent(tx, existing ? 'image.updated' : 'image.created', slot, { old: existing, new: written });
+            await alongside.write?.(tx);
+            return written;
+        }, () => [...(existing ? replacementFollowUps(existing, image, visibility) : []), ...(alongside.followUps ?? [])]);
+    } catch (error) {
+        if (!existing && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            throw new SlotTakenError(slot);
+        }
+
+        throw error;
+    }
+}
+
+/**
+ * Looks up the metadata of stored images, with a single query for the blobs they point to.
+ *
+ * @param {StoredImage[]} images - The profile or listing rows.
+ * @return {Promise<ImageMetadata[]>} - The metadata of each row, in the same order.
+ */
+async function loadImageMetadata(images: StoredImage[]): Promise<ImageMetadata[]> {
+    const blobs = images.length === 0 ? [] : await prisma.blob.findMany({
+        where: {
+            key: { in: [...new Set(images.map(image => image.image))] }
+        }
+    });
+    const found = new Map(blobs.map(blob => [blob.key, blob]));
+
+    return images.map(image => {
+        const blob = found.get(image.image);
+
+        return {
+            width: blob?.width ?? null,
+            height: blob?.height ?? null,
+            size: blob?.size ?? null,
+            format: blob?.format ?? getKeyFormat(image.image),
+            hash: blob?.hash ?? null,
+            blurhash: blob?.blurhash ?? null,
+            placeholder: blob?.placeholder ?? null,
+            dominantColor: blob?.dominantColor ?? null,
+            originalName: image.originalName,
+            uploadedBy: image.uploadedBy,
+            createdAt: image.createdAt.toISOString(),
+            updatedAt: image.updatedAt.toISOString(),
+        };
+    });
+}
+
+/**
+ * Deletes the image stored in a slot. The image is released once the deletion has committed.
+ * Listing galleries are not compacted, so the other images keep their indexes.
+ *
+ * @param {ImageSlot} slot - The profile or listing slot.
+ * @return {Promise<StoredImage | null>} - The deleted row, or null if the slot was empty.
+ */
+async function deleteImage(slot: ImageSlot): Promise<StoredImage | null> {
+    return commitImageWrite<StoredImage | null>(null, async (tx) => {
+        let deleted: StoredImage | null;
+
+        if (slot.type === 'profile') {
+            const found = await tx.profile.findUnique({ where: { userId: slot.id } });
+            deleted = found ? await tx.profile.delete({ where: { userId: slot.id } }) : null;
+        } else {
+            const where = { listingId_index: { listingId: slot.id, index: slot.index } };
+            const found = await tx.listing.findUnique({ where });
+            deleted = found ? await tx.listing.delete({ where }) : null;
+        }
+
+        if (deleted) {
+            await recordImageEvent(tx, 'image.deleted', slot, { old: deleted });
+        }
+
+        return deleted;
+    }, deleted => deleted ? [{ action: 'release', key: deleted.image, variants: deleted.variants }] : []);
+}
+
+export {
+    ImageSlot,
+    StoredImage,
+    UploadInfo,
+    ImageMetadata,
+    SlotTakenError,
+    ImageChangedError,
+    replacementFollowUps,
+    replaceImage,
+    findImage,
+    writeImage,
+    loadImageMetadata,
+    deleteImage,
+};
@@ -0,0 +1,547 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import crypto from 'crypto';
+
+import { PrismaClient, Prisma, job } from '@prisma/client';
+import { log, LogLevel, runWithLogContext } from './utils/Logger.ts';
+import { trackQueryErrors, jobsCompleted } from './utils/Metrics.ts';
+import { retainImage } from './Blobs.ts';
+import { commitImageWrite } from './PendingOperations.ts';
+import { ImageSlot, UploadInfo, SlotTakenError, findImage, writeImage } from './Images.ts';
+import { resolveImageUrls } from './ImagePipeline.ts';
+import { recordImageEvent, signWebhook } from './Webhooks.ts';
+import { storage } from './storage/Storage.ts';
+import { Visibility } from './storage/StorageBackend.ts';
+import { config } from './Config.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+const { concurrency, pollInterval, maxAttempts, timeout, callbackTimeoutMs, callbackHosts, callbackSecret, retention } = config.jobs;
+
+// Failed jobs are retried with an exponential backoff, capped at ten minutes.
+const maxBackoff: number = 10 * 60;
+
+// Finished jobs older than the retention period are looked for at most this often, in milliseconds.
+const pruneInterval: number = 60 * 60 * 1000;
+
+/**
+ * - `upload` stores an image in an empty slot.
+ * - `update` replaces the image in a slot.
+ */
+type JobAction = 'upload' | 'update';
+
+/**
+ * Jobs are `queued` until a worker claims them, and `processing` until they have `succeeded` or `failed` for good.
+ */
+type JobStatus = 'queued' | 'processing' | 'succeeded' | 'failed';
+
+/**
+ * An upload or update to process in the background.
+ */
+interface JobRequest {
+    action: JobAction;
+    slot: ImageSlot;
+    buffer: Buffer;
+    contentType: string;
+    upload: UploadInfo;
+    visibility?: Visibility;
+    callbackUrl?: string;
+}
+
+/**
+ * What the status endpoint and callbacks report about a job.
+ */
+interface JobReport {
+    id: string;
+    action: JobAction;
+    status: JobStatus;
+    type: string;
+    entityId: number;
+    index?: number;
+    attempts: number;
+    imageUrl?: string;
+    variants?: Record<string, string>;
+    expiresAt?: string;
+    error?: { code: string, message: string };
+    createdAt: string;
+    completedAt?: string;
+}
+
+/**
+ * Thrown when a job cannot succeed however often it is retried, e.g. because the image it updates was deleted.
+ */
+class JobFailedError extends Error {
+    readonly code: string;
+
+    constructor(code: string, message: string) {
+        super(message);
+        this.name = 'JobFailedError';
+        this.code = code;
+    }
+}
+
+/**
+ * Thrown when a job ran for longer than its lock and another worker claimed it. Its outcome is left to that worker.
+ */
+class JobLostError extends Error {
+    constructor(id: string) {
+        super(`Job ${id} was claimed by another worker.`);
+        this.name = 'JobLostError';
+    }
+}
+
+// Set once the workers run in this process, so new jobs start right away instead of on the next poll.
+let workersStarted = false;
+let activeJobs = 0;
+let claiming = false;
+let lastPrune = 0;
+
+/**
+ * @param {string} id - The job ID.
+ * @return {string} - The path of the job's status endpoint.
+ */
+function jobUrl(id: string): string {
+    return `/api/image/jobs/${id}`;
+}
+
+/**
+ * @param {job} queued - The job.
+ * @return {ImageSlot} - The slot the job writes to.
+ */
+function jobSlot(queued: job): ImageSlot {
+    return queued.type === 'profile'
+        ? { type: 'profile', id: queued.entityId }
+        : { type: 'listing', id: queued.entityId, index: queued.index as number };
+}
+
+/**
+ * Stores the raw upload and queues it for processing. The file is kept as it was sent until a worker picks it up.
+ *
+ * @param {JobRequest} request - What to process and where to store it.
+ * @return {Promise<job>} - The queued job.
+ * @throws {Error} - If the file or the job could not be stored.
+ */
+async function enqueueImageJob(request: JobRequest): Promise<job> {
+    const id = crypto.randomUUID();
+    const stagingKey = `uploads/jobs/${id}`;
+
+    await storage.upload(stagingKey, request.buffer, request.contentType, 'private');
+
+    let queued: job;
+    try {
+        queued = await prisma.job.create({
+            data: {
+                id,
+                action: request.action,
+                type: request.slot.type,
+                entityId: request.slot.id,
+                index: request.slot.type === 'listing' ? request.slot.index : null,
+                visibility: request.visibility ?? null,
+                stagingKey,
+                contentType: request.contentType,
+                ...request.upload,
+                callbackUrl: request.callbackUrl ?? null,
+                runAfter: new Date(),
+            }
+        });
+    } catch (error) {
+        await storage.delete(stagingKey).catch((deleteError: Error) => {
+            log(`Failed to delete staged file ${stagingKey}: ${deleteError.message}`, LogLevel.ERROR);
+        });
+        throw error;
+    }
+
+    log(`Queued ${request.action} job ${id}.`);
+
+    if (workersStarted) {
+        runWithLogContext({}, () => void runDueJobs());
+    }
+
+    return queued;
+}
+
+/**
+ * Fetches a job.
+ *
+ * @param {string} id - The job ID.
+ * @return {Promise<job | null>} - The job, or null if it does not exist or has been pruned.
+ */
+async function findJob(id: string): Promise<job | null> {
+    return prisma.job.findUnique({ where: { id } });
+}
+
+/**
+ * Describes a job for its status endpoint and callback, with fresh URLs if it succeeded.
+ *
+ * @param {job} queued - The job.
+ * @param {string} [accept] - The Accept header to negotiate image formats with.
+ * @return {Promise<JobReport>} - The status, and the URLs or the error.
+ */
+async function describeJob(queued: job, accept?: string): Promise<JobReport> {
+    const report: JobReport = {
+        id: queued.id,
+        action: queued.action as JobAction,
+        status: queued.status as JobStatus,
+        type: queued.type,
+        entityId: queued.entityId,
+        index: queued.index ?? undefined,
+        attempts: queued.attempts,
+        createdAt: queued.createdAt.toISOString(),
+        completedAt: queued.completedAt?.toISOString(),
+    };
+
+    if (queued.status === 'succeeded' && queued.result) {
+        const result = queued.result as { key: string, variants: Prisma.JsonValue, visibility: Visibility };
+        const urls = await resolveImageUrls(result.key, result.variants, { accept, visibility: result.visibility });
+        report.imageUrl = urls.imageUrl;
+        report.variants = urls.variants;
+        report.expiresAt = urls.expiresAt;
+    }
+
+    if (queued.status === 'failed') {
+        // The details of internal errors are logged, but not shown to clients.
+        report.error = queued.errorCode && queued.errorCode !== 'INTERNAL_ERROR'
+            ? { code: queued.errorCode, message: queued.lastError ?? "" }
+            : { code: 'INTERNAL_ERROR', message: "Processing failed." };
+    }
+
+    return report;
+}
+
+/**
+ * Claims the next job that is due, or one whose worker stopped before finishing it and that has attempts left.
+ *
+ * @return {Promise<job | null>} - The claimed job, or null if none is due.
+ */
+async function claimJob(): Promise<job | null> {
+    const now = new Date();
+    const candidates = await prisma.job.findMany({
+        where: {
+            OR: [
+                { status: 'queued', runAfter: { lte: now } },
+                { status: 'processing', lockedUntil: { lt: now }, attempts: { lt: maxAttempts } },
+            ]
+        },
+        orderBy: {
+            runAfter: 'asc'
+        },
+        take: 10,
+    });
+
+    for (const candidate of candidates) {
+        // Every claim increments the attempts, so of several workers racing for a job only the first one matches.
+        const lockedUntil = new Date(Date.now() + timeout * 1000);
+        const claimed = await prisma.job.updateMany({
+            where: { id: candidate.id, status: candidate.status, attempts: candidate.attempts },
+            data: { status: 'processing', attempts: { increment: 1 }, lockedUntil },
+        });
+
+        if (claimed.count === 1) {
+            return { ...candidate, status: 'processing', attempts: candidate.attempts + 1, lockedUntil };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Marks a claimed job as finished, as part of a transaction.
+ *
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {job} queued - The claimed job.
+ * @param {Prisma.jobUpdateManyMutationInput} data - The outcome of the job.
+ * @throws {JobLostError} - If another worker claimed the job in the meantime, which rolls the transaction back.
+ */
+async function finishJob(tx: Prisma.TransactionClient, queued: job, data: Prisma.jobUpdateManyMutationInput): Promise<void> {
+    const finished = await tx.job.updateMany({
+        where: { id: queued.id, status: 'processing', attempts: queued.attempts },
+        data: { ...data, lockedUntil: null, completedAt: new Date() },
+    });
+
+    if (finished.count === 0) {
+        throw new JobLostError(queued.id);
+    }
+}
+
+/**
+ * Processes the staged file of a job and writes it to its slot. The job is marked as succeeded and the staged file is
+ * deleted in the same transaction as the row.
+ *
+ * @param {job} queued - The claimed job.
+ * @throws {JobFailedError | SlotTakenError} - If the job cannot succeed.
+ * @throws {Error} - If processing failed in a way that may go away when retried.
+ */
+async function runJob(queued: job): Promise<void> {
+    const slot = jobSlot(queued);
+    const staged = await storage.get(queued.stagingKey);
+
+    if (!staged) {
+        throw new JobFailedError('FILE_MISSING', "The uploaded file is no longer available.");
+    }
+
+    const existing = await findImage(slot);
+
+    if (queued.action === 'upload' && existing) {
+        throw new SlotTakenError(slot);
+    }
+
+    if (queued.action === 'update' && !existing) {
+        throw new JobFailedError('IMAGE_NOT_FOUND', "The image to update no longer exists.");
+    }
+
+    // Updates without a visibility keep that of the image they replace, as it is when they run.
+    const visibility = (queued.visibility ?? existing?.visibility ?? 'public') as Visibility;
+
+    log("Storing image and generating size variants...");
+    const image = await retainImage(slot.type, staged.buffer, queued.contentType, visibility);
+    log(`Image key: ${image.key}`);
+
+    await writeImage(slot, image, visibility, existing, { originalName: queued.originalName, uploadedBy: queued.uploadedBy }, {
+        write: tx => finishJob(tx, queued, {
+            status: 'succeeded',
+            result: { key: image.key, variants: image.variants, visibility },
+            errorCode: null,
+            lastError: null,
+        }),
+        followUps: [{ action: 'delete', key: queued.stagingKey }],
+    });
+}
+
+/**
+ * Runs a claimed job, then either finishes it, schedules a retry, or gives up on it.
+ *
+ * @param {job} queued - The claimed job.
+ * @return {Promise<void>} - Resolves once the job is settled. Never throws.
+ */
+async function processJob(queued: job): Promise<void> {
+    log(`Processing ${queued.action} job, attempt ${queued.attempts} of ${maxAttempts}...`);
+
+    try {
+        await runJob(queued);
+        jobsCompleted.inc({ action: queued.action, status: 'succeeded' });
+        log("Job succeeded.");
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (error instanceof JobLostError) {
+            log(message, LogLevel.WARNING);
+            return;
+        }
+
+        let code: string | null = null;
+        if (error instanceof JobFailedError) {
+            code = error.code;
+        } else if (error instanceof SlotTakenError) {
+            code = 'SLOT_TAKEN';
+        }
+
+        // Other errors are retried, including an update whose image was replaced in the meantime, since the next
+        // attempt replaces the new image.
+        if (!code && queued.attempts < maxAttempts) {
+            const backoff = Math.min(maxBackoff, pollInterval * 2 ** queued.attempts);
+            log(`Job failed, retrying in ${backoff}s: ${message}`, LogLevel.WARNING);
+
+            await prisma.job.updateMany({
+                where: { id: queued.id, status: 'processing', attempts: queued.attempts },
+                data: {
+                    status: 'queued',
+                    lastError: message,
+                    lockedUntil: null,
+                    runAfter: new Date(Date.now() + backoff * 1000),
+                }
+            }).catch((updateError: Error) => {
+                // The job is claimed again once its lock expires.
+                log(`Failed to reschedule job: ${updateError.message}`, LogLevel.ERROR);
+            });
+
+            return;
+        }
+
+        log(`Job failed: ${message}`, code ? LogLevel.WARNING : LogLevel.ERROR);
+
+        if (!await failJob(queued, code, message)) {
+            return;
+        }
+    }
+
+    await sendCallback(queued.id);
+}
+
+/**
+ * Gives up on a claimed job. The job is marked as failed and the failure is reported in the same transaction, and the
+ * staged file is deleted once it has committed.
+ *
+ * @param {job} queued - The claimed job.
+ * @param {string | null} code - The error code to report, or null for an internal error whose details are not shown.
+ * @param {string} message - The error message.
+ * @return {Promise<boolean>} - Returns true if the job was marked as failed, false if that failed too.
+ */
+async function failJob(queued: job, code: string | null, message: string): Promise<boolean> {
+    try {
+        await commitImageWrite(null, async (tx) => {
+            await finishJob(tx, queued, {
+                status: 'failed',
+                errorCode: code ?? 'INTERNAL_ERROR',
+                lastError: message,
+            });
+            await recordImageEvent(tx, 'image.processing_failed', jobSlot(queued), {
+                error: code ? { code, message } : { code: 'INTERNAL_ERROR', message: "Processing failed." },
+            });
+        }, () => [{ action: 'delete', key: queued.stagingKey }]);
+    } catch (finishError) {
+        log(`Failed to mark job as failed: ${finishError instanceof Error ? finishError.message : finishError}`, LogLevel.ERROR);
+        return false;
+    }
+
+    jobsCompleted.inc({ action: queued.action, status: 'failed' });
+    return true;
+}
+
+/**
+ * Gives up on jobs whose worker stopped before finishing them on their last attempt, which claimJob leaves alone.
+ * Their callbacks are sent like those of any other failed job.
+ *
+ * @return {Promise<number>} - The number of jobs that were marked as failed.
+ */
+async function failAbandonedJobs(): Promise<number> {
+    const abandoned = await prisma.job.findMany({
+        where: { status: 'processing', lockedUntil: { lt: new Date() }, attempts: { gte: maxAttempts } },
+        take: 10,
+    });
+
+    let failed = 0;
+    for (const queued of abandoned) {
+        const message = `Job did not finish within ${timeout}s on any of its ${queued.attempts} attempts.`;
+
+        await runWithLogContext({ jobId: queued.id, imageType: queued.type, entityId: queued.entityId, index: queued.index ?? undefined }, async () => {
+            log(`Job failed: ${message}`, LogLevel.ERROR);
+
+            if (await failJob(queued, null, message)) {
+                failed++;
+                await sendCallback(queued.id);
+            }
+        });
+    }
+
+    return failed;
+}
+
+/**
+ * Reports the outcome of a finished job to its callback URL, if it has one. Callbacks are sent once and not retried,
+ * since the status endpoint keeps reporting the outcome. They are signed like webhooks, and only sent to the allowed
+ * callback hosts, which are checked again in case they changed since the job was queued.
+ *
+ * @param {string} id - The job ID.
+ * @return {Promise<void>} - Resolves once the callback was answered or failed. Never throws.
+ */
+async function sendCallback(id: string): Promise<void> {
+    try {
+        const finished = await findJob(id);
+
+        if (!finished?.callbackUrl) {
+            return;
+        }
+
+        if (!callbackSecret || !callbackHosts.includes(new URL(finished.callbackUrl).hostname.toLowerCase())) {
+            throw new Error(`Callback host of ${finished.callbackUrl} is not allowed.`);
+        }
+
+        const body = JSON.stringify(await describeJob(finished));
+        const response = await fetch(finished.callbackUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-BrowseBox-Job': finished.id,
+                'X-BrowseBox-Signature': signWebhook(callbackSecret, Math.floor(Date.now() / 1000), body),
+            },
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(callbackTimeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Callback responded with ${response.status}.`);
+        }
+
+        log("Job callback sent.");
+    } catch (error) {
+        log(`Failed to send job callback: ${error instanceof Error ? error.message : error}`, LogLevel.WARNING);
+    }
+}
+
+/**
+ * Claims and starts due jobs until the workers are busy or no job is due.
+ */
+async function runDueJobs(): Promise<void> {
+    if (claiming) {
+        return;
+    }
+
+    claiming = true;
+    try {
+        await failAbandonedJobs();
+
+        while (activeJobs < concurrency) {
+            const next = await claimJob();
+            if (!next) {
+                break;
+            }
+
+            activeJobs++;
+            void runWithLogContext({ jobId: next.id, imageType: next.type, entityId: next.entityId, index: next.index ?? undefined }, () => processJob(next))
+                .finally(() => {
+                    activeJobs--;
+                    void runDueJobs();
+                });
+        }
+    } catch (error) {
+        if (error instanceof Error) {
+            log("Failed to claim jobs: " + error.message, LogLevel.ERROR);
+        }
+    } finally {
+        claiming = false;
+    }
+}
+
+/**
+ * Deletes jobs that finished longer ago than the retention period.
+ *
+ * @return {Promise<number>} - The number of deleted jobs.
+ */
+async function pruneJobs(): Promise<number> {
+    const pruned = await prisma.job.deleteMany({
+        where: {
+            status: { in: ['succeeded', 'failed'] },
+            completedAt: { lt: new Date(Date.now() - retention * 1000) },
+        }
+    });
+
+    if (pruned.count > 0) {
+        log(`Pruned ${pruned.count} finished jobs.`);
+    }
+
+    return pruned.count;
+}
+
+/**
+ * Starts the workers that process queued jobs in the background.
+ */
+function startJobWorkers(): void {
+    workersStarted = true;
+
+    const timer = setInterval(async () => {
+        await runDueJobs();
+
+        if (Date.now() - lastPrune >= pruneInterval) {
+            lastPrune = Date.now();
+            await pruneJobs().catch((error: Error) => {
+                log("Failed to prune finished jobs: " + error.message, LogLevel.ERROR);
+            });
+        }
+    }, pollInterval * 1000);
+
+    timer.unref();
+}
+
+export { JobAction, JobStatus, JobRequest, JobReport, jobUrl, enqueueImageJob, findJob, describeJob, claimJob, failAbandonedJobs, startJobWorkers };
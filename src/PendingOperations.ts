@@ -0,0 +1,232 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { PrismaClient, Prisma, pendingOperation } from '@prisma/client';
+import { log, LogLevel } from './utils/Logger.ts';
+import { trackQueryErrors } from './utils/Metrics.ts';
+import { RetainedImage, releaseImage, syncBlobVisibility } from './Blobs.ts';
+import { forgetTransforms } from './Transforms.ts';
+import { storage } from './storage/Storage.ts';
+import { config } from './Config.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+// How often the retries look for pending operations that are due, in seconds.
+const retryInterval: number = config.pendingOperationInterval;
+
+// Failed operations are retried with an exponential backoff, capped at an hour.
+const maxBackoff: number = 60 * 60;
+
+/**
+ * A storage step that has to happen because of a database write.
+ *
+ * - `release` drops a reference to a blob, deleting its objects once nothing refers to it anymore.
+ * - `sync` makes the objects of a blob match the visibility of the rows referencing it.
+ * - `delete` removes a single object, e.g. the staging object of a direct upload.
+ */
+type OperationAction = 'release' | 'sync' | 'delete';
+
+/**
+ * A storage step to record alongside a database write.
+ */
+interface FollowUp {
+    action: OperationAction;
+    key: string;
+    variants?: Prisma.JsonValue | null;
+}
+
+/**
+ * Runs a single pending operation and removes it once it has gone through.
+ *
+ * @param {pendingOperation} operation - The operation to run.
+ * @throws {Error} - If the storage step failed. The operation is left in place.
+ */
+async function runOperation(operation: pendingOperation): Promise<void> {
+    // The image may have been made private or deleted, so transformations cached from it must not be served anymore.
+    if (operation.action === 'release' || operation.action === 'sync') {
+        forgetTransforms(operation.key);
+    }
+
+    switch (operation.action) {
+        case 'release':
+            // Releases remove their own operation, so a retry never drops a reference twice.
+            await releaseImage(operation.key, operation.variants, operation.id);
+            return;
+        case 'sync':
+            await syncBlobVisibility(operation.key, operation.variants);
+            break;
+        case 'delete':
+            await storage.delete(operation.key);
+            break;
+        default:
+            throw new Error(`Unknown pending operation: ${operation.action}`);
+    }
+
+    await prisma.pendingOperation.deleteMany({ where: { id: operation.id } });
+}
+
+/**
+ * Tries to run a pending operation now, scheduling a retry if it fails.
+ *
+ * @param {number} id - The pending operation ID.
+ * @return {Promise<boolean>} - True if the operation went through or was already gone. Never throws.
+ */
+async function settleOperation(id: number): Promise<boolean> {
+    let operation: pendingOperation | null = null;
+
+    try {
+        operation = await prisma.pendingOperation.findUnique({ where: { id } });
+
+        if (operation) {
+            await runOperation(operation);
+        }
+
+        return true;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        // Without the row there is nothing to reschedule. It keeps its old run time and is picked up again later.
+        if (!operation) {
+            log(`Failed to load pending operation ${id}: ${message}`, LogLevel.ERROR);
+            return false;
+        }
+
+        const backoff = Math.min(maxBackoff, retryInterval * 2 ** operation.attempts);
+        log(`Pending ${operation.action} of ${operation.key} failed, retrying in ${backoff}s: ${message}`, LogLevel.WARNING);
+
+        await prisma.pendingOperation.updateMany({
+            where: { id },
+            data: {
+                attempts: { increment: 1 },
+                lastError: message,
+                runAfter: new Date(Date.now() + backoff * 1000),
+            }
+        }).catch((updateError: Error) => {
+            log(`Failed to reschedule pending operation ${id}: ${updateError.message}`, LogLevel.ERROR);
+        });
+
+        return false;
+    }
+}
+
+/**
+ * Writes to the database and carries out the storage steps that go with it, so both sides end up consistent.
+ *
+ * The write runs in a transaction that also cancels the pending release of the retained images and records every
+ * follow-up step. If the transaction fails, the retained images are released again. Once it commits, the follow-ups are
+ * run straight away, and any that fail stay recorded and are retried in the background instead of failing the request.
+ *
+ * @param {RetainedImage | RetainedImage[] | null} retained - The images the write stores on rows, or null if it does not store any.
+ * @param {Function} write - Performs the database write using the given transaction client.
+ * @param {Function} [followUps] - Lists the storage steps to take once the write has committed.
+ * @return {Promise<T>} - The result of the write.
+ * @throws {Error} - If the write failed. Nothing was committed in that case.
+ */
+async function commitImageWrite<T>(
+    retained: RetainedImage | RetainedImage[] | null,
+    write: (tx: Prisma.TransactionClient) => Promise<T>,
+    followUps: (result: T) => FollowUp[] = () => []
+): Promise<T> {
+    const retainedImages = retained === null ? [] : Array.isArray(retained) ? retained : [retained];
+    let operations: number[] = [];
+    let result: T;
+
+    try {
+        result = await prisma.$transaction(async (tx) => {
+            const written = await write(tx);
+
+            // Fails if an upload took so long that its release already ran, which rolls the write back.
+            for (const image of retainedImages) {
+                await tx.pendingOperation.delete({ where: { id: image.operationId } });
+            }
+
+            operations = [];
+            for (const followUp of followUps(written)) {
+                const operation = await tx.pendingOperation.create({
+                    data: {
+                        action: followUp.action,
+                        key: followUp.key,
+                        variants: followUp.variants ?? Prisma.JsonNull,
+                        runAfter: new Date(),
+                    }
+                });
+                operations.push(operation.id);
+            }
+
+            return written;
+        });
+    } catch (error) {
+        if (retainedImages.length > 0) {
+            log("Database write failed, releasing retained images...", LogLevel.WARNING);
+            for (const image of retainedImages) {
+                await settleOperation(image.operationId);
+            }
+        }
+        throw error;
+    }
+
+    for (const id of operations) {
+        await settleOperation(id);
+    }
+
+    return result;
+}
+
+/**
+ * Runs every pending operation that is due.
+ *
+ * @param {number} [limit] - The maximum number of operations to run.
+ * @return {Promise<number>} - The number of operations that went through.
+ */
+async function retryPendingOperations(limit: number = 100): Promise<number> {
+    const due = await prisma.pendingOperation.findMany({
+        where: {
+            runAfter: { lte: new Date() }
+        },
+        orderBy: {
+            runAfter: 'asc'
+        },
+        take: limit,
+    });
+
+    let settled = 0;
+    for (const operation of due) {
+        if (await settleOperation(operation.id)) {
+            settled++;
+        }
+    }
+
+    if (due.length > 0) {
+        log(`Retried ${due.length} pending operations, ${settled} went through.`);
+    }
+
+    return settled;
+}
+
+/**
+ * Starts retrying pending operations in the background.
+ */
+function startOperationRetries(): void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) {
+            return;
+        }
+
+        running = true;
+        try {
+            await retryPendingOperations();
+        } catch (error) {
+            if (error instanceof Error) {
+                log("Failed to retry pending operations: " + error.message, LogLevel.ERROR);
+            }
+        } finally {
+            running = false;
+        }
+    }, retryInterval * 1000);
+
+    timer.unref();
+}
+
+export { OperationAction, FollowUp, commitImageWrite, settleOperation, retryPendingOperations, startOperationRetries };
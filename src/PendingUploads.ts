@@ -0,0 +1,79 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { PrismaClient } from '@prisma/client';
+import { log, LogLevel } from './utils/Logger.ts';
+import { trackQueryErrors } from './utils/Metrics.ts';
+import { storage } from './storage/Storage.ts';
+import { config } from './Config.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+// How often expired direct uploads are looked for, in seconds.
+const sweepInterval: number = config.uploads.pendingUploadSweepInterval;
+
+/**
+ * Removes direct uploads that were requested but never finalized in time, along with the objects clients uploaded for
+ * them. The row is only removed once its object is gone, so an object that fails to delete is tried again next time.
+ *
+ * @param {number} [limit] - The maximum number of expired uploads to remove.
+ * @return {Promise<number>} - The number of removed uploads.
+ */
+async function sweepExpiredUploads(limit: number = 100): Promise<number> {
+    const expired = await prisma.pendingUpload.findMany({
+        where: {
+            expiresAt: { lt: new Date() }
+        },
+        orderBy: {
+            expiresAt: 'asc'
+        },
+        take: limit,
+    });
+
+    let removed = 0;
+    for (const pending of expired) {
+        try {
+            await storage.delete(pending.key);
+            await prisma.pendingUpload.deleteMany({ where: { token: pending.token } });
+            removed++;
+        } catch (error) {
+            if (error instanceof Error) {
+                log(`Failed to remove expired upload ${pending.key}: ${error.message}`, LogLevel.WARNING);
+            }
+        }
+    }
+
+    if (removed > 0) {
+        log(`Removed ${removed} expired direct uploads.`);
+    }
+
+    return removed;
+}
+
+/**
+ * Starts removing expired direct uploads in the background.
+ */
+function startPendingUploadSweep(): void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) {
+            return;
+        }
+
+        running = true;
+        try {
+            await sweepExpiredUploads();
+        } catch (error) {
+            if (error instanceof Error) {
+                log("Failed to remove expired direct uploads: " + error.message, LogLevel.ERROR);
+            }
+        } finally {
+            running = false;
+        }
+    }, sweepInterval * 1000);
+
+    timer.unref();
+}
+
+export { sweepExpiredUploads, startPendingUploadSweep };
@@ -0,0 +1,246 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import fs from 'fs';
+import path from 'path';
+
+import { PrismaClient } from '@prisma/client';
+import { log, LogLevel } from './utils/Logger.ts';
+import { trackQueryErrors } from './utils/Metrics.ts';
+import { getImageKeys } from './ImagePipeline.ts';
+import { storage } from './storage/Storage.ts';
+import { config } from './Config.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+// Every image object lives under this prefix, see generateImageKey.
+const IMAGE_PREFIX = "assets/img/";
+
+// How often the scheduled reconciliation runs, in seconds. 0 disables the schedule.
+const reconcileInterval: number = config.reconciliation.interval;
+
+// Unreferenced objects younger than this, in seconds, are left alone because their upload may still be in flight.
+const defaultGracePeriod: number = config.reconciliation.gracePeriod;
+
+// Scheduled runs only report what they would delete unless this is set to "false".
+const scheduledDryRun: boolean = config.reconciliation.dryRun;
+
+/**
+ * A profile or listing row pointing to objects that are missing from storage.
+ */
+interface DanglingRow {
+    type: 'profile' | 'listing';
+    id: number;
+    index?: number;
+    key: string;
+    missing: string[];
+}
+
+/**
+ * An object under the image prefix that no row or blob points to.
+ */
+interface UnreferencedObject {
+    key: string;
+    size: number;
+    lastModified: string;
+    deleted: boolean;
+    skipped?: string;
+}
+
+interface ReconciliationOptions {
+    dryRun?: boolean;
+    gracePeriod?: number;
+}
+
+interface ReconciliationReport {
+    startedAt: string;
+    finishedAt: string;
+    dryRun: boolean;
+    gracePeriod: number;
+    objectsScanned: number;
+    rowsScanned: number;
+    danglingRows: DanglingRow[];
+    unreferencedObjects: UnreferencedObject[];
+    deletedObjects: number;
+    freedBytes: number;
+}
+
+/**
+ * Finds the key prefix shared by every object of the image an object belongs to.
+ *
+ * @param {string} key - The object key, e.g. "assets/img/listing/a/ab/ab12..._thumb.webp".
+ * @return {string} - The key up to the end of the image hash, e.g. "assets/img/listing/a/ab/ab12...".
+ */
+function getImageKeyPrefix(key: string): string {
+    const directory = key.substring(0, key.lastIndexOf('/') + 1);
+    return directory + key.substring(directory.length).split(/[_.]/)[0];
+}
+
+/**
+ * Checks right before an orphan is deleted whether a blob or row has come to point to its image since the scan, e.g.
+ * because the same content was uploaded again in the meantime.
+ *
+ * @param {string} key - The object key.
+ * @return {Promise<boolean>} - Returns true if the image is referenced now, false otherwise.
+ */
+async function isReferencedNow(key: string): Promise<boolean> {
+    // Originals are stored under the hash itself, and every variant under the hash with a suffix.
+    const original = { startsWith: getImageKeyPrefix(key) + '.' };
+    const [blobs, profiles, listings] = await Promise.all([
+        prisma.blob.count({ where: { key: original } }),
+        prisma.profile.count({ where: { image: original } }),
+        prisma.listing.count({ where: { image: original } }),
+    ]);
+
+    return blobs + profiles + listings > 0;
+}
+
+/**
+ * Compares the objects in storage with the profile and listing tables.
+ *
+ * Rows whose objects are missing are only reported, since the image they pointed to cannot be recovered. Objects that
+ * nothing points to are deleted once they are older than the grace period, unless this is a dry run. Blobs count as
+ * references too, so images that are still being stored are never treated as orphans. Since uploads keep going while
+ * the scan runs, every orphan is looked up again right before it is deleted.
+ *
+ * @param {ReconciliationOptions} [options] - Whether to delete anything, and how old an orphan has to be.
+ * @return {Promise<ReconciliationReport>} - What was found and what was deleted.
+ */
+async function reconcileStorage(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    const dryRun = options.dryRun ?? false;
+    const gracePeriod = options.gracePeriod ?? defaultGracePeriod;
+    const startedAt = new Date();
+
+    log(`Reconciling storage with the database${dryRun ? " (dry run)" : ""}...`);
+
+    const objects = await storage.list(IMAGE_PREFIX);
+    const stored = new Set(objects.map(object => object.key));
+
+    const [profiles, listings, blobs] = await Promise.all([
+        prisma.profile.findMany(),
+        prisma.listing.findMany(),
+        prisma.blob.findMany(),
+    ]);
+
+    const referenced = new Set<string>();
+    const danglingRows: DanglingRow[] = [];
+
+    const rows = [
+        ...profiles.map(row => ({ type: 'profile' as const, id: row.userId, index: undefined, image: row.image, variants: row.variants })),
+        ...listings.map(row => ({ type: 'listing' as const, id: row.listingId, index: row.index, image: row.image, variants: row.variants })),
+    ];
+
+    for (const row of rows) {
+        const keys = getImageKeys(row.image, row.variants);
+        keys.forEach(key => referenced.add(key));
+
+        const missing = keys.filter(key => !stored.has(key));
+        if (missing.length > 0) {
+            danglingRows.push({ type: row.type, id: row.id, index: row.index, key: row.image, missing });
+        }
+    }
+
+    for (const blob of blobs) {
+        getImageKeys(blob.key, blob.variants).forEach(key => referenced.add(key));
+    }
+
+    const unreferencedObjects: UnreferencedObject[] = [];
+    const cutoff = startedAt.getTime() - gracePeriod * 1000;
+    let deletedObjects = 0;
+    let freedBytes = 0;
+
+    for (const object of objects) {
+        if (referenced.has(object.key)) {
+            continue;
+        }
+
+        const orphan: UnreferencedObject = {
+            key: object.key,
+            size: object.size,
+            lastModified: object.lastModified.toISOString(),
+            deleted: false,
+        };
+
+        if (object.lastModified.getTime() > cutoff) {
+            orphan.skipped = "grace period";
+        } else if (dryRun) {
+            orphan.skipped = "dry run";
+        } else {
+            try {
+                if (await isReferencedNow(object.key)) {
+                    orphan.skipped = "referenced since the scan";
+                } else {
+                    await storage.delete(object.key);
+                    orphan.deleted = true;
+                    deletedObjects++;
+                    freedBytes += object.size;
+                }
+            } catch (error) {
+                orphan.skipped = error instanceof Error ? error.message : String(error);
+                log(`Failed to delete orphaned object ${object.key}: ${orphan.skipped}`, LogLevel.WARNING);
+            }
+        }
+
+        unreferencedObjects.push(orphan);
+    }
+
+    log(`Reconciliation found ${danglingRows.length} dangling rows and ${unreferencedObjects.length} unreferenced objects, deleted ${deletedObjects}.`);
+
+    return {
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        dryRun,
+        gracePeriod,
+        objectsScanned: objects.length,
+        rowsScanned: rows.length,
+        danglingRows,
+        unreferencedObjects,
+        deletedObjects,
+        freedBytes,
+    };
+}
+
+/**
+ * Writes a reconciliation report to disk as JSON.
+ *
+ * @param {ReconciliationReport} report - The report to write.
+ * @param {string} filePath - The file to write to.
+ */
+function writeReport(report: ReconciliationReport, filePath: string): void {
+    fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + '\n');
+}
+
+/**
+ * Starts running the reconciliation on a schedule. Each report is written to the configured log directory.
+ */
+function startReconciliationSchedule(): void {
+    if (reconcileInterval <= 0) {
+        return;
+    }
+
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) {
+            return;
+        }
+
+        running = true;
+        try {
+            const report = await reconcileStorage({ dryRun: scheduledDryRun });
+            const reportPath = path.join(config.logging.directory, `reconciliation-${report.startedAt.replace(/[:.]/g, '-')}.json`);
+            writeReport(report, reportPath);
+            log("Reconciliation report written to " + reportPath);
+        } catch (error) {
+            if (error instanceof Error) {
+                log("Scheduled reconciliation failed: " + error.message, LogLevel.ERROR);
+            }
+        } finally {
+            running = false;
+        }
+    }, reconcileInterval * 1000);
+
+    timer.unref();
+}
+
+export { ReconciliationReport, ReconciliationOptions, reconcileStorage, writeReport, startReconciliationSchedule };
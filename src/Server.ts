@@ -6,36 +6,52 @@ import multer from 'multer';
 
 import express, { Express, Request, Response, NextFunction } from 'express';
 
-import { log, LogLevel } from './utils/Logger.ts';
+import { log, LogLevel, requestLogger } from './utils/Logger.ts';
+import { metricsMiddleware, rateLimitRejections } from './utils/Metrics.ts';
+import { servesFiles } from './storage/Storage.ts';
+import { startOperationRetries } from './PendingOperations.ts';
+import { startPendingUploadSweep } from './PendingUploads.ts';
+import { startReconciliationSchedule } from './Reconciliation.ts';
+import { startJobWorkers } from './Jobs.ts';
+import { startWebhookDeliveries } from './Webhooks.ts';
+import { config, checkAuthConfig } from './Config.ts';
+
+checkAuthConfig(config);
 
 const app: Express = express();
 
 app.use(express.json());
 app.use(cors());
 
-// Error handling for multer errors and other unchecked errors.
-app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
-    if (error instanceof multer.MulterError) {
-        log ("File upload error: " + error.message, LogLevel.ERROR);
-        res.status(400).json({
-            message: 'File upload error'
-        });
-    } else if (error) {
-        log ("Unchecked error: " + error, LogLevel.ERROR);
-        res.status(400).json({
-            message: error
-        });
-    } else {
-        next();
-    }
-});
+// Probed every few seconds by the orchestrator, so mounted before request logging and rate limiting.
+const health = require('./api/routes/Health');
+app.use(health);
+
+// Tags every log entry with the ID of the request it belongs to.
+app.use(requestLogger);
+
+// Counts every request and records its latency, by route and status.
+app.use(metricsMiddleware);
+
+// Mounted before the rate limiter, so frequent scrapes are never rejected.
+const metrics = require('./api/routes/Metrics');
+app.use(metrics);
+
+// Meant to sit behind a CDN, whose few edge addresses would quickly hit the rate limit. Only presets and signed
+// transformations are generated, which bounds the work a client can cause.
+const transformImage = require('./api/routes/TransformImage');
+app.use(transformImage);
 
 // Enable rate limiting for all requests to the API.
-// Currently set to 100 requests per minute for each IP address.
+// Defaults to 100 requests per minute for each IP address.
 const rateLimit = require('express-rate-limit')
 const limiter = rateLimit({
-    windowMs: 1 * 60 * 1000,
-    max: 100,
+    windowMs: config.rateLimit.window * 1000,
+    max: config.rateLimit.max,
+    handler: (req: Request, res: Response, next: NextFunction, options: { statusCode: number, message: unknown }) => {
+        rateLimitRejections.inc();
+        res.status(options.statusCode).send(options.message);
+    },
 });
 
 app.use(limiter);
@@ -43,6 +59,9 @@ app.use(limiter);
 const uploadImage = require('./api/routes/UploadImage');
 app.use(uploadImage);
 
+const batchUpload = require('./api/routes/BatchUpload');
+app.use(batchUpload);
+
 const updateImage = require('./api/routes/UpdateImage');
 app.use(updateImage);
 
@@ -52,4 +71,75 @@ app.use(retrieveImage);
 const deleteImage = require('./api/routes/DeleteImage');
 app.use(deleteImage);
 
-app.listen(7355, () => log("Starting BrowseBox indexer service on port: 7355"));
+const listingGallery = require('./api/routes/ListingGallery');
+app.use(listingGallery);
+
+const directUpload = require('./api/routes/DirectUpload');
+app.use(directUpload);
+
+const imageVisibility = require('./api/routes/ImageVisibility');
+app.use(imageVisibility);
+
+const jobStatus = require('./api/routes/JobStatus');
+app.use(jobStatus);
+
+const webhookDeliveries = require('./api/routes/WebhookDeliveries');
+app.use(webhookDeliveries);
+
+// The v2 API addresses images as resources. The routes above stay for existing clients.
+const profileImage = require('./api/routes/v2/ProfileImage');
+app.use(profileImage);
+
+const listingImages = require('./api/routes/v2/ListingImages');
+app.use(listingImages);
+
+// Local and in-memory storage have no HTTP endpoint, so the indexer serves their files itself.
+if (servesFiles) {
+    const serveFile = require('./api/routes/ServeFile');
+    app.use(serveFile);
+}
+
+// Error handling for multer errors and errors routes pass on with next(error), e.g. malformed JSON bodies. Mounted
+// after every route, so errors from each of them are answered in the same JSON shape.
+app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+        next(error);
+        return;
+    }
+
+    const status = error instanceof Error && 'status' in error && typeof error.status === 'number' ? error.status : 500;
+
+    if (error instanceof multer.MulterError) {
+        log ("File upload error: " + error.message, LogLevel.ERROR);
+        res.status(400).json({
+            message: 'File upload error'
+        });
+    } else if (error instanceof Error && status >= 400 && status < 500) {
+        log ("Rejected request: " + error.message, LogLevel.WARNING);
+        res.status(status).json({
+            message: error.message
+        });
+    } else {
+        log ("Unchecked error: " + error, LogLevel.ERROR);
+        res.status(500).json({
+            message: 'Internal server error'
+        });
+    }
+});
+
+// Storage steps that failed after their database write are retried in the background.
+startOperationRetries();
+
+// Direct uploads that were never finalized are removed once they expire, along with their staging objects.
+startPendingUploadSweep();
+
+// Uploads and updates sent with async=true are processed by a pool of workers polling the job table.
+startJobWorkers();
+
+// Image events recorded in the webhook outbox are sent to their subscribers until they are accepted.
+startWebhookDeliveries();
+
+// Orphaned objects and rows pointing to missing objects are looked for once a day by default.
+startReconciliationSchedule();
+
+app.listen(config.port, () => log("Starting BrowseBox indexer service on port: " + config.port));
@@ -0,0 +1,258 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import sharp from 'sharp';
+import crypto from 'crypto';
+
+import { storage } from './storage/Storage.ts';
+import { log } from './utils/Logger.ts';
+import { imageProcessingDuration, transformCacheRequests } from './utils/Metrics.ts';
+import { LruCache } from './utils/LruCache.ts';
+import { negotiateFormat } from './utils/FormatNegotiation.ts';
+import { countReferences } from './Blobs.ts';
+import { config } from './Config.ts';
+
+const TRANSFORM_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+const TRANSFORM_FORMATS = ['jpeg', 'png', 'webp', 'avif'] as const;
+
+/**
+ * The largest width or height a transformation can ask for.
+ * @type {number}
+ */
+const MAX_TRANSFORM_DIMENSION: number = 4096;
+
+/**
+ * How an image is resized to fit the requested width and height, see sharp's `fit` option.
+ */
+type TransformFit = (typeof TRANSFORM_FITS)[number];
+
+/**
+ * A transformation of a stored original. Parameters that are left out keep the original's value.
+ */
+interface Transform {
+    width?: number;
+    height?: number;
+    fit?: TransformFit;
+    quality?: number;
+}
+
+/**
+ * The result of transforming an image.
+ */
+interface TransformedImage {
+    buffer: Buffer;
+    contentType: string;
+}
+
+/**
+ * Parses the configured presets, e.g. "card:400x300:cover:80,wide:800x". Each preset has a name, a width and height
+ * either of which may be left out, and optionally a fit and a quality.
+ *
+ * @return {Map<string, Transform>} - The presets by name.
+ * @throws {Error} - If a preset definition is malformed.
+ */
+function getPresetConfig(): Map<string, Transform> {
+    const presets = new Map<string, Transform>();
+
+    for (const definition of config.transforms.presets.split(',').map(value => value.trim()).filter(value => value.length > 0)) {
+        const match = /^([a-z0-9-]+):(\d*)x(\d*)(?::([a-z]+))?(?::(\d+))?$/.exec(definition);
+        const fit = match?.[4] as TransformFit | undefined;
+        const transform: Transform = {
+            width: match?.[2] ? parseInt(match[2]) : undefined,
+            height: match?.[3] ? parseInt(match[3]) : undefined,
+            fit,
+            quality: match?.[5] ? parseInt(match[5]) : undefined,
+        };
+
+        if (!match || (fit && !TRANSFORM_FITS.includes(fit)) || !isValidTransform(transform)) {
+            throw new Error(`Invalid image preset definition: ${definition}`);
+        }
+
+        presets.set(match[1], transform);
+    }
+
+    return presets;
+}
+
+/**
+ * Checks that a transformation stays within the limits, e.g. after reading it from the configuration.
+ *
+ * @param {Transform} transform - The transformation.
+ * @return {boolean} - Returns true if every dimension and the quality are in range, false otherwise.
+ */
+function isValidTransform(transform: Transform): boolean {
+    const inRange = (value: number | undefined, max: number) => value === undefined || (value >= 1 && value <= max);
+    return inRange(transform.width, MAX_TRANSFORM_DIMENSION) && inRange(transform.height, MAX_TRANSFORM_DIMENSION) && inRange(transform.quality, 100);
+}
+
+const presets: Map<string, Transform> = getPresetConfig();
+
+// Transformed images are kept in memory up to this many bytes in total. 0 turns the cache off.
+const cache = new LruCache<TransformedImage>(config.transforms.cacheSize, image => image.buffer.length);
+
+// Originals that are known to be public, so revalidations can be answered without a database query.
+const servable = new LruCache<true>(10000, () => 1);
+
+// Requests for a transformation that is already being generated wait for it instead of generating it again.
+const inflight = new Map<string, Promise<TransformedImage | null>>();
+
+/**
+ * Looks up a preset by name.
+ *
+ * @param {string} name - The preset name.
+ * @return {Transform | undefined} - The preset, or undefined if none is configured with that name.
+ */
+function getPreset(name: string): Transform | undefined {
+    return presets.get(name);
+}
+
+/**
+ * Writes a transformation in a fixed order, so the same parameters always produce the same signature and cache key.
+ *
+ * @param {Transform} transform - The transformation.
+ * @return {string} - The canonical form, e.g. "w=400&h=300&fit=cover". Empty if nothing is changed.
+ */
+function canonicalTransform(transform: Transform): string {
+    const parameters: [string, unknown][] = [['w', transform.width], ['h', transform.height], ['fit', transform.fit], ['q', transform.quality]];
+    return parameters.filter(([, value]) => value !== undefined).map(([name, value]) => `${name}=${value}`).join('&');
+}
+
+/**
+ * Picks the format a transformation is encoded to.
+ *
+ * @param {string} key - The original image key.
+ * @param {string | undefined} accept - The caller's Accept header.
+ * @param {string} [override] - A format requested explicitly. "original" keeps the format of the original.
+ * @return {string} - The format name, e.g. "webp".
+ */
+function selectTransformFormat(key: string, accept: string | undefined, override?: string): string {
+    const original = key.substring(key.lastIndexOf('.') + 1);
+    return negotiateFormat(accept, [...TRANSFORM_FORMATS, original], original, override);
+}
+
+/**
+ * Builds the strong ETag of a transformation. Keys are content-addressed and the output only depends on the
+ * parameters, so the ETag is known without transforming anything.
+ *
+ * @param {string} key - The original image key.
+ * @param {Transform} transform - The transformation.
+ * @param {string} format - The output format.
+ * @return {string} - The quoted ETag.
+ */
+function transformEtag(key: string, transform: Transform, format: string): string {
+    const hash = crypto.createHash('sha256').update(`${key}?${canonicalTransform(transform)}&format=${format}`).digest('hex');
+    return `"${hash.substring(0, 32)}"`;
+}
+
+/**
+ * Checks whether an image may be served through the transformation route. Only originals referenced by at least one
+ * public row qualify, so private images and variant keys cannot be fetched this way.
+ *
+ * @param {string} key - The original image key.
+ * @return {Promise<boolean>} - Returns true if the image is public, false otherwise.
+ */
+async function isServable(key: string): Promise<boolean> {
+    if (servable.get(key)) {
+        return true;
+    }
+
+    if (!key.startsWith('assets/img/') || await countReferences(key, 'public') === 0) {
+        return false;
+    }
+
+    servable.set(key, true);
+    return true;
+}
+
+/**
+ * Transforms a stored original, serving it from the cache if it was transformed the same way before.
+ *
+ * @param {string} key - The original image key.
+ * @param {Transform} transform - The transformation.
+ * @param {string} format - The output format.
+ * @return {Promise<TransformedImage | null>} - The transformed image, or null if the original does not exist.
+ */
+async function transformImage(key: string, transform: Transform, format: string): Promise<TransformedImage | null> {
+    const cacheKey = `${key}?${canonicalTransform(transform)}&format=${format}`;
+    const cached = cache.get(cacheKey);
+
+    if (cached) {
+        transformCacheRequests.inc({ result: 'hit' });
+        return cached;
+    }
+
+    transformCacheRequests.inc({ result: 'miss' });
+
+    let pending = inflight.get(cacheKey);
+    if (!pending) {
+        pending = generateTransform(key, transform, format).finally(() => inflight.delete(cacheKey));
+        inflight.set(cacheKey, pending);
+    }
+
+    const image = await pending;
+    if (image) {
+        cache.set(cacheKey, image);
+    }
+
+    return image;
+}
+
+/**
+ * Fetches an original through the storage layer and transforms it with sharp.
+ *
+ * @param {string} key - The original image key.
+ * @param {Transform} transform - The transformation.
+ * @param {string} format - The output format.
+ * @return {Promise<TransformedImage | null>} - The transformed image, or null if the original does not exist.
+ */
+async function generateTransform(key: string, transform: Transform, format: string): Promise<TransformedImage | null> {
+    const original = await storage.get(key);
+
+    if (!original) {
+        return null;
+    }
+
+    const stopTimer = imageProcessingDuration.startTimer({ type: 'transform' });
+    const image = sharp(original.buffer).rotate();
+
+    if (transform.width || transform.height) {
+        image.resize({ width: transform.width, height: transform.height, fit: transform.fit ?? 'cover', withoutEnlargement: true });
+    }
+
+    const buffer = await image.toFormat(format as keyof sharp.FormatEnum, { quality: transform.quality }).toBuffer();
+    stopTimer();
+
+    log(`Transformed ${key} (${canonicalTransform(transform) || "unchanged"}) to ${format}, ${buffer.length} bytes.`);
+    return { buffer, contentType: `image/${format}` };
+}
+
+/**
+ * Drops every cached transformation of an image, e.g. because it was made private or deleted.
+ * Only this process's cache is cleared. Other instances and CDNs keep their copies until they expire.
+ *
+ * @param {string} key - The original image key.
+ */
+function forgetTransforms(key: string): void {
+    servable.delete(key);
+    const removed = cache.deleteWhere(cacheKey => cacheKey.startsWith(`${key}?`));
+
+    if (removed > 0) {
+        log(`Dropped ${removed} cached transformations of ${key}.`);
+    }
+}
+
+export {
+    TRANSFORM_FITS,
+    TRANSFORM_FORMATS,
+    MAX_TRANSFORM_DIMENSION,
+    TransformFit,
+    Transform,
+    TransformedImage,
+    getPreset,
+    canonicalTransform,
+    selectTransformFormat,
+    transformEtag,
+    isServable,
+    transformImage,
+    forgetTransforms,
+};
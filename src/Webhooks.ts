@@ -0,0 +1,355 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import crypto from 'crypto';
+
+import { PrismaClient, Prisma, webhookDelivery } from '@prisma/client';
+import { log, LogLevel } from './utils/Logger.ts';
+import { trackQueryErrors, webhookDeliveries } from './utils/Metrics.ts';
+import { mapConcurrently } from './utils/Concurrency.ts';
+import { resolveImageUrls } from './ImagePipeline.ts';
+import { ImageSlot } from './Images.ts';
+import { WEBHOOK_EVENTS, WebhookSubscription, config } from './Config.ts';
+
+const prisma = trackQueryErrors(new PrismaClient());
+
+const { subscriptions, pollInterval, maxAttempts, timeoutMs } = config.webhooks;
+
+// Failed deliveries are retried with an exponential backoff, capped at an hour.
+const maxBackoff: number = 60 * 60;
+
+// A claimed delivery is pushed back by this many seconds while it is sent, so other instances leave it alone, and pick
+// it up again if this one dies before recording the outcome.
+const claimDuration: number = Math.ceil(timeoutMs / 1000) + 60;
+
+// How many deliveries are sent at the same time.
+const deliveryConcurrency: number = 4;
+
+/**
+ * Something that happened to an image, e.g. `image.updated`.
+ */
+type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * An image before or after an event. Profile and listing rows can be passed as they are.
+ */
+interface EventImage {
+    image: string;
+    variants: Prisma.JsonValue;
+    visibility: string;
+    index?: number;
+}
+
+/**
+ * What an event changed. Created images have no old image, deleted ones no new image.
+ */
+interface ImageChange {
+    old?: EventImage | null;
+    new?: EventImage | null;
+    error?: { code: string, message: string };
+}
+
+/**
+ * Describes an image for a webhook payload.
+ *
+ * @param {EventImage | null} [image] - The image.
+ * @return {Promise<Object | null>} - The key, visibility, URLs and gallery index of the image, or null if there is none.
+ */
+async function describeEventImage(image?: EventImage | null): Promise<Prisma.InputJsonObject | null> {
+    if (!image) {
+        return null;
+    }
+
+    const urls = await resolveImageUrls(image.image, image.variants, { visibility: image.visibility });
+    return {
+        key: image.image,
+        visibility: image.visibility,
+        imageUrl: urls.imageUrl,
+        variants: urls.variants,
+        expiresAt: urls.expiresAt ?? null,
+        index: image.index ?? null,
+    };
+}
+
+/**
+ * Records an image event in the outbox, with a delivery for every subscription that wants it. Has to be called in the
+ * transaction of the write the event describes, so the event is sent if and only if the write commits.
+ *
+ * @param {Prisma.TransactionClient} tx - The transaction client.
+ * @param {WebhookEvent} event - The event.
+ * @param {ImageSlot} slot - The profile or listing slot the event happened to.
+ * @param {ImageChange} change - The image before and after the event, or the error processing failed with.
+ */
+async function recordImageEvent(tx: Prisma.TransactionClient, event: WebhookEvent, slot: ImageSlot, change: ImageChange): Promise<void> {
+    const subscribed = subscriptions.filter(subscription => subscription.events.includes(event));
+
+    if (subscribed.length === 0) {
+        return;
+    }
+
+    const payload: Prisma.InputJsonObject = {
+        id: crypto.randomUUID(),
+        type: event,
+        occurredAt: new Date().toISOString(),
+        data: {
+            entityType: slot.type,
+            entityId: slot.id,
+            index: slot.type === 'listing' ? slot.index : null,
+            old: await describeEventImage(change.old),
+            new: await describeEventImage(change.new),
+            error: change.error ?? null,
+        },
+    };
+
+    await tx.webhookDelivery.createMany({
+        data: subscribed.map(subscription => ({
+            eventId: payload.id as string,
+            event,
+            subscription: subscription.name,
+            payload,
+            runAfter: new Date(),
+        }))
+    });
+}
+
+/**
+ * Signs a webhook body. Receivers recompute the signature with their secret and compare it to the one sent in the
+ * `X-BrowseBox-Signature` header, and reject old timestamps to prevent replays.
+ *
+ * @param {string} secret - The subscription's secret.
+ * @param {number} timestamp - The time of sending, in seconds since the epoch.
+ * @param {string} body - The request body.
+ * @return {string} - The header value, e.g. "t=1700000000,v1=5257a869...".
+ */
+function signWebhook(secret: string, timestamp: number, body: string): string {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * @param {string} name - The subscription name.
+ * @return {WebhookSubscription | undefined} - The subscription, or undefined if none is configured with that name.
+ */
+function findSubscription(name: string): WebhookSubscription | undefined {
+    return subscriptions.find(subscription => subscription.name === name);
+}
+
+/**
+ * Sends a single delivery and records the outcome, scheduling a retry if it failed.
+ *
+ * @param {webhookDelivery} delivery - The claimed delivery.
+ * @return {Promise<boolean>} - True if the subscriber accepted the delivery. Never throws.
+ */
+async function sendDelivery(delivery: webhookDelivery): Promise<boolean> {
+    const subscription = findSubscription(delivery.subscription);
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+
+    try {
+        if (!subscription) {
+            throw new Error(`The subscription ${delivery.subscription} is no longer configured.`);
+        }
+
+        const body = JSON.stringify(delivery.payload);
+        const response = await fetch(subscription.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-BrowseBox-Event': delivery.event,
+                'X-BrowseBox-Event-Id': delivery.eventId,
+                'X-BrowseBox-Delivery': String(delivery.id),
+                'X-BrowseBox-Signature': signWebhook(subscription.secret, Math.floor(Date.now() / 1000), body),
+            },
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        responseStatus = response.status;
+        if (!response.ok) {
+            throw new Error(`Responded with ${response.status}.`);
+        }
+
+        await prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: { status: 'delivered', attempts, responseStatus, lastError: null, deliveredAt: new Date() },
+        });
+
+        webhookDeliveries.inc({ subscription: delivery.subscription, outcome: 'delivered' });
+        log(`Delivered ${delivery.event} webhook ${delivery.id} to ${delivery.subscription}.`);
+        return true;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const failed = attempts >= maxAttempts || !subscription;
+        const backoff = Math.min(maxBackoff, pollInterval * 2 ** attempts);
+
+        if (failed) {
+            log(`Webhook ${delivery.id} to ${delivery.subscription} failed for good: ${message}`, LogLevel.ERROR);
+        } else {
+            log(`Webhook ${delivery.id} to ${delivery.subscription} failed, retrying in ${backoff}s: ${message}`, LogLevel.WARNING);
+        }
+
+        await prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: {
+                status: failed ? 'failed' : 'pending',
+                attempts,
+                responseStatus,
+                lastError: message,
+                runAfter: new Date(Date.now() + backoff * 1000),
+            },
+        }).catch((updateError: Error) => {
+            // The delivery is claimed again once its claim runs out, and sent a second time.
+            log(`Failed to record the outcome of webhook ${delivery.id}: ${updateError.message}`, LogLevel.ERROR);
+        });
+
+        webhookDeliveries.inc({ subscription: delivery.subscription, outcome: failed ? 'failed' : 'retried' });
+        return false;
+    }
+}
+
+/**
+ * Claims deliveries that are due, so no other instance sends them at the same time.
+ *
+ * @param {number} limit - The maximum number of deliveries to claim.
+ * @return {Promise<webhookDelivery[]>} - The claimed deliveries, oldest first.
+ */
+async function claimDeliveries(limit: number): Promise<webhookDelivery[]> {
+    const due = await prisma.webhookDelivery.findMany({
+        where: {
+            status: 'pending',
+            runAfter: { lte: new Date() }
+        },
+        orderBy: [
+            { runAfter: 'asc' },
+            { id: 'asc' },
+        ],
+        take: limit,
+    });
+
+    const claimed: webhookDelivery[] = [];
+    for (const delivery of due) {
+        // The run time works as a version, so of several instances racing for a delivery only the first one matches.
+        const claim = await prisma.webhookDelivery.updateMany({
+            where: { id: delivery.id, status: 'pending', runAfter: delivery.runAfter },
+            data: { runAfter: new Date(Date.now() + claimDuration * 1000) },
+        });
+
+        if (claim.count === 1) {
+            claimed.push(delivery);
+        }
+    }
+
+    return claimed;
+}
+
+/**
+ * Sends every delivery that is due.
+ *
+ * @param {number} [limit] - The maximum number of deliveries to send.
+ * @return {Promise<number>} - The number of deliveries that were accepted.
+ */
+async function deliverDueWebhooks(limit: number = 100): Promise<number> {
+    const claimed = await claimDeliveries(limit);
+    const results = await mapConcurrently(claimed, deliveryConcurrency, sendDelivery);
+    const delivered = results.filter(result => result).length;
+
+    if (claimed.length > 0) {
+        log(`Sent ${claimed.length} webhooks, ${delivered} were delivered.`);
+    }
+
+    return delivered;
+}
+
+/**
+ * Fetches a delivery.
+ *
+ * @param {number} id - The delivery ID.
+ * @return {Promise<webhookDelivery | null>} - The delivery, or null if it does not exist.
+ */
+async function findDelivery(id: number): Promise<webhookDelivery | null> {
+    return prisma.webhookDelivery.findUnique({ where: { id } });
+}
+
+/**
+ * Lists deliveries, newest first, e.g. to find the ones that failed.
+ *
+ * @param {Object} filter - Only list deliveries with this status, or of this event.
+ * @param {number} limit - The maximum number of deliveries to list.
+ * @return {Promise<webhookDelivery[]>} - The deliveries.
+ */
+async function listDeliveries(filter: { status?: string, eventId?: string }, limit: number): Promise<webhookDelivery[]> {
+    return prisma.webhookDelivery.findMany({
+        where: filter,
+        orderBy: {
+            id: 'desc'
+        },
+        take: limit,
+    });
+}
+
+/**
+ * Sends a delivery again, as a new delivery of the same event. The original keeps its outcome.
+ *
+ * @param {webhookDelivery} original - The delivery to replay.
+ * @return {Promise<webhookDelivery>} - The new delivery, due straight away.
+ */
+async function replayDelivery(original: webhookDelivery): Promise<webhookDelivery> {
+    const replay = await prisma.webhookDelivery.create({
+        data: {
+            eventId: original.eventId,
+            event: original.event,
+            subscription: original.subscription,
+            payload: original.payload as Prisma.InputJsonValue,
+            runAfter: new Date(),
+            replayOf: original.id,
+        }
+    });
+
+    log(`Replaying webhook ${original.id} to ${original.subscription} as ${replay.id}.`);
+    return replay;
+}
+
+/**
+ * Starts sending webhooks from the outbox in the background. Does nothing if no subscription is configured.
+ */
+function startWebhookDeliveries(): void {
+    if (subscriptions.length === 0) {
+        return;
+    }
+
+    let running = false;
+
+    const timer = setInterval(async () => {
+        if (running) {
+            return;
+        }
+
+        running = true;
+        try {
+            await deliverDueWebhooks();
+        } catch (error) {
+            if (error instanceof Error) {
+                log("Failed to send webhooks: " + error.message, LogLevel.ERROR);
+            }
+        } finally {
+            running = false;
+        }
+    }, pollInterval * 1000);
+
+    timer.unref();
+}
+
+export {
+    WebhookEvent,
+    EventImage,
+    ImageChange,
+    recordImageEvent,
+    signWebhook,
+    findSubscription,
+    deliverDueWebhooks,
+    findDelivery,
+    listDeliveries,
+    replayDelivery,
+    startWebhookDeliveries,
+};
@@ -0,0 +1,310 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import crypto from 'crypto';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { log, LogLevel } from '../utils/Logger.ts';
+import { config } from '../Config.ts';
+
+/**
+ * Whoever sent a request, as established by their token or API key.
+ * Users carry the listings they own in their token, services act on behalf of every user.
+ */
+interface Caller {
+    subject: string;
+    service: boolean;
+    userId: number | null;
+    listingIds: number[];
+    scopes: string[];
+}
+
+/**
+ * The profile or listing a request wants to change.
+ */
+interface OwnedEntity {
+    type: 'profile' | 'listing';
+    id: number;
+}
+
+/**
+ * The scope that allows changing any profile or listing image.
+ * @type {string}
+ */
+const ADMIN_SCOPE: string = config.auth.adminScope;
+
+// Authentication can be turned off for local development only. Every request is then treated as an admin.
+const authDisabled: boolean = config.auth.disabled;
+
+const { jwtSecret, jwtPublicKey, jwtIssuer, jwtAudience } = config.auth;
+
+/**
+ * Parses the configured API keys, e.g. "search:0f3a...,moderation:9b1c...".
+ *
+ * @return {Map<string, string>} - The service names, keyed by API key.
+ * @throws {Error} - If an entry is malformed.
+ */
+function getApiKeys(): Map<string, string> {
+    const keys = new Map<string, string>();
+
+    for (const entry of config.auth.apiKeys.split(',').map(value => value.trim()).filter(value => value.length > 0)) {
+        const separator = entry.indexOf(':');
+
+        if (separator <= 0 || separator === entry.length - 1) {
+            // The entry is left out of the message so the key does not end up in the logs.
+            throw new Error('Invalid API key entry, expected "service:key".');
+        }
+
+        keys.set(entry.substring(separator + 1), entry.substring(0, separator));
+    }
+
+    return keys;
+}
+
+const apiKeys: Map<string, string> = getApiKeys();
+
+if (authDisabled) {
+    log("Authentication is disabled. Every request can change every image.", LogLevel.WARNING);
+}
+
+/**
+ * Looks up the service an API key belongs to, comparing in constant time.
+ *
+ * @param {string} key - The API key sent by the caller.
+ * @return {string | null} - The service name, or null if the key is unknown.
+ */
+function findService(key: string): string | null {
+    const sent = crypto.createHash('sha256').update(key).digest();
+
+    for (const [known, service] of apiKeys) {
+        if (crypto.timingSafeEqual(sent, crypto.createHash('sha256').update(known).digest())) {
+            return service;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Verifies a JWT issued by the BrowseBox API.
+ *
+ * The key is picked by the algorithm in the token header, and each key is only accepted for its own algorithm, so a
+ * token signed with the RS256 public key as an HS256 secret is rejected.
+ *
+ * @param {string} token - The encoded token.
+ * @return {Caller} - The user the token was issued to.
+ * @throws {Error} - If the token is invalid, expired or signed with an algorithm that is not configured.
+ */
+function verifyToken(token: string): Caller {
+    const decoded = jwt.decode(token, { complete: true });
+    const algorithm = decoded?.header.alg as Algorithm | undefined;
+
+    let key: string | undefined;
+    if (algorithm === 'HS256') {
+        key = jwtSecret;
+    } else if (algorithm === 'RS256') {
+        key = jwtPublicKey;
+    }
+
+    if (!algorithm || !key) {
+        throw new Error(`Unsupported token algorithm: ${algorithm}`);
+    }
+
+    const payload = jwt.verify(token, key, {
+        algorithms: [algorithm],
+        issuer: jwtIssuer,
+        audience: jwtAudience,
+    }) as JwtPayload;
+
+    const userId = parseInt(payload.sub ?? "");
+    const scopes: string[] = Array.isArray(payload.scopes)
+        ? payload.scopes
+        : typeof payload.scope === 'string' ? payload.scope.split(' ') : [];
+    const listingIds: number[] = Array.isArray(payload.listings)
+        ? payload.listings.map((id: unknown) => Number(id)).filter(Number.isInteger)
+        : [];
+
+    return {
+        subject: payload.sub ?? "",
+        service: false,
+        userId: isNaN(userId) ? null : userId,
+        listingIds,
+        scopes,
+    };
+}
+
+/**
+ * Identifies the caller from an `Authorization: Bearer` token or an `X-API-Key` header.
+ *
+ * @param {Request} req - The Express Request object.
+ * @return {Caller | null} - The caller, or null if neither is present or valid.
+ */
+function identifyCaller(req: Request): Caller | null {
+    if (authDisabled) {
+        return { subject: "anonymous", service: true, userId: null, listingIds: [], scopes: [ADMIN_SCOPE] };
+    }
+
+    const apiKey = req.header('X-API-Key');
+    const authorization = req.header('Authorization');
+
+    if (apiKey) {
+        const service = findService(apiKey);
+
+        if (service) {
+            return { subject: service, service: true, userId: null, listingIds: [], scopes: [ADMIN_SCOPE] };
+        }
+
+        log("Rejected unknown API key.", LogLevel.WARNING);
+    } else if (authorization?.startsWith('Bearer ')) {
+        try {
+            return verifyToken(authorization.substring('Bearer '.length).trim());
+        } catch (error) {
+            if (error instanceof Error) {
+                log("Rejected token: " + error.message, LogLevel.WARNING);
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Identifies the caller, see identifyCaller. Responds with 401 if that fails.
+ * The caller is stored in `res.locals.caller`.
+ *
+ * @param {Request} req - The Express Request object.
+ * @param {Response} res - The Express Response object.
+ * @param {NextFunction} next - Continues with the next handler.
+ */
+function authenticate(req: Request, res: Response, next: NextFunction): void {
+    const caller = identifyCaller(req);
+
+    if (!caller) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(401).json({ message: "Authentication required." });
+        return;
+    }
+
+    res.locals.caller = caller;
+    next();
+}
+
+/**
+ * Identifies the caller if they sent credentials, for routes that anyone can use but that show owners and admins more.
+ * Anonymous callers and callers with invalid credentials are let through without a `res.locals.caller`.
+ *
+ * @param {Request} req - The Express Request object.
+ * @param {Response} res - The Express Response object.
+ * @param {NextFunction} next - Continues with the next handler.
+ */
+function identify(req: Request, res: Response, next: NextFunction): void {
+    res.locals.caller = identifyCaller(req) ?? undefined;
+    next();
+}
+
+/**
+ * Checks whether a caller may change the image of a profile or listing.
+ *
+ * @param {Caller} caller - The authenticated caller.
+ * @param {OwnedEntity} entity - The profile or listing.
+ * @return {boolean} - Returns true for admins and owners, false otherwise.
+ */
+function canModify(caller: Caller, entity: OwnedEntity): boolean {
+    if (caller.scopes.includes(ADMIN_SCOPE)) {
+        return true;
+    }
+
+    if (entity.type === 'profile') {
+        return caller.userId === entity.id;
+    }
+
+    return caller.listingIds.includes(entity.id);
+}
+
+/**
+ * Checks whether a caller may see an image. Public images can be seen by anyone, private ones only by whoever may
+ * change them.
+ *
+ * @param {Caller | undefined} caller - The caller, if they were identified.
+ * @param {OwnedEntity} entity - The profile or listing the image belongs to.
+ * @param {string} visibility - The visibility of the image.
+ * @return {boolean} - Returns true if the caller may see the image, false otherwise.
+ */
+function canView(caller: Caller | undefined, entity: OwnedEntity, visibility: string): boolean {
+    return visibility === 'public' || (caller !== undefined && canModify(caller, entity));
+}
+
+/**
+ * Only lets the request through if the caller owns the profile or listing it changes, or is an admin.
+ * Requests that do not name a valid entity are passed on, so the handler can reject them as invalid.
+ *
+ * @param {Function} resolve - Finds the profile or listing a request changes.
+ * @return {RequestHandler} - The middleware. Has to run after authenticate and after the body is parsed.
+ */
+function requireOwnership(resolve: (req: Request) => OwnedEntity | null | Promise<OwnedEntity | null>): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const caller: Caller = res.locals.caller;
+            const entity = await resolve(req);
+
+            if (entity && !canModify(caller, entity)) {
+                res.status(403).json({ message: `Not allowed to change this ${entity.type} image.` });
+                log(`Caller ${caller.subject} does not own ${entity.type} ${entity.id}. Aborting.`, LogLevel.WARNING);
+                return;
+            }
+
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Only lets the request through if the caller is an admin, for routes that operate the indexer rather than an image.
+ *
+ * @param {Request} req - The Express Request object.
+ * @param {Response} res - The Express Response object.
+ * @param {NextFunction} next - Continues with the next handler. Has to run after authenticate.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+    const caller: Caller = res.locals.caller;
+
+    if (!caller.scopes.includes(ADMIN_SCOPE)) {
+        res.status(403).json({ message: "Admin access required." });
+        log(`Caller ${caller.subject} is not an admin. Aborting.`, LogLevel.WARNING);
+        return;
+    }
+
+    next();
+}
+
+/**
+ * Resolves the entity from the `id` field of the request body.
+ *
+ * @param {string} type - The image type, either "profile" or "listing".
+ * @return {Function} - The resolver for requireOwnership.
+ */
+function bodyEntity(type: 'profile' | 'listing'): (req: Request) => OwnedEntity | null {
+    return (req: Request) => {
+        const id = parseInt(req.body?.id);
+        return isNaN(id) ? null : { type, id };
+    };
+}
+
+/**
+ * Resolves the entity from a route parameter, for routes that name the profile or listing in their path.
+ *
+ * @param {string} type - The image type, either "profile" or "listing".
+ * @param {string} param - The name of the route parameter holding the ID.
+ * @return {Function} - The resolver for requireOwnership.
+ */
+function paramEntity(type: 'profile' | 'listing', param: string): (req: Request) => OwnedEntity | null {
+    return (req: Request) => {
+        const id = parseInt(req.params[param]);
+        return isNaN(id) ? null : { type, id };
+    };
+}
+
+export { Caller, OwnedEntity, ADMIN_SCOPE, authenticate, identify, canModify, canView, requireOwnership, requireAdmin, bodyEntity, paramEntity };
@@ -1,58 +1,511 @@
 // Copyright (c) BrowseBox. Licensed under the MIT Licence.
 // See the LICENCE file in the repository root for full licence text.
 
-import { Request } from 'express';
+import { Request, Response } from 'express';
+import { log, LogLevel } from '../utils/Logger.ts';
+import { TRANSFORM_FITS, TRANSFORM_FORMATS, MAX_TRANSFORM_DIMENSION } from '../Transforms.ts';
+import { config } from '../Config.ts';
 
-enum RequestType {
-    UPLOAD_PROFILE = 'upload-profile',
-    UPLOAD_LISTING = 'upload-listing',
-    UPDATE_PROFILE = 'upload-profile',
-    UPDATE_LISTING = 'upload-listing',
-    DELETE_PROFILE = 'delete-profile',
-    DELETE_LISTING = 'delete-listing',
+// The largest value a MySQL INT column holds. Larger IDs would fail in Prisma rather than being rejected here.
+const MAX_INT: number = 2147483647;
+
+/**
+ * A single problem with a request, e.g. `{ field: "body.index", message: "Must be a whole number." }`.
+ */
+interface FieldError {
+    field: string;
+    message: string;
 }
 
 /**
- * Validates a request based on the specified request type and the provided Request object.
- * @function
- * @param {string} requestType - The type of request to validate.
- * @param {Request} req - The Express Request object.
- * @returns {boolean} - Returns true if the request is valid, false otherwise.
+ * Thrown when a request does not match its schema. Lists every invalid field, not just the first.
  */
-function requestValidation(requestType: string, req: Request) {
-    const id = req.body.id;
-    const index = req.body.index;
-    const file = req.file;
+class RequestValidationError extends Error {
+    readonly errors: FieldError[];
 
-    switch (requestType) {
-        case RequestType.UPLOAD_PROFILE || RequestType.UPDATE_PROFILE:
-            if (!id || id === undefined || id == "undefined" || !file || file === undefined) {
-                return false;
-            } else {
-                return true;
+    constructor(errors: FieldError[]) {
+        super("Invalid request: " + errors.map(error => `${error.field} ${error.message}`).join(', '));
+        this.name = 'RequestValidationError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * Describes one field of a request, and converts the raw value into the type handlers work with.
+ * Multipart bodies send everything as strings, so numbers are accepted both as JSON numbers and as numeric strings.
+ */
+class Field<T> {
+    constructor(
+        private readonly convert: (value: unknown) => T,
+        private readonly required: boolean = true,
+        private readonly fallback?: T
+    ) {}
+
+    /**
+     * Converts a raw value. Missing values are undefined, null or empty strings.
+     *
+     * @param {unknown} value - The raw value from the request.
+     * @return {T} - The converted value.
+     * @throws {Error} - If the value is missing or invalid. The message describes what was expected.
+     */
+    parse(value: unknown): T {
+        if (value === undefined || value === null || value === "") {
+            if (this.fallback !== undefined || !this.required) {
+                return this.fallback as T;
             }
 
-        case RequestType.UPLOAD_LISTING || RequestType.UPDATE_LISTING:
-            if (!id || id === undefined || id == "undefined" || !index || index === undefined || index == "undefined" || !file || file === undefined) {
-                return false;
-            } else {
-                return true;
+            throw new Error("is required.");
+        }
+
+        return this.convert(value);
+    }
+
+    /**
+     * @return {Field<T | undefined>} - The same field, left undefined when it is missing.
+     */
+    optional(): Field<T | undefined> {
+        return new Field<T | undefined>(this.convert, false);
+    }
+
+    /**
+     * @param {T} value - The value to use when the field is missing.
+     * @return {Field<T>} - The same field, falling back to the given value.
+     */
+    default(value: T): Field<T> {
+        return new Field<T>(this.convert, false, value);
+    }
+}
+
+/**
+ * The fields of one part of a request, keyed by name.
+ */
+type Shape = Record<string, Field<unknown>>;
+
+/**
+ * The converted values of a shape.
+ */
+type Infer<S> = { [K in keyof S]: S[K] extends Field<infer T> ? T : never };
+
+/**
+ * Everything a route accepts. Fields that are not listed are ignored.
+ */
+interface RequestSchema {
+    params?: Shape;
+    query?: Shape;
+    body?: Shape;
+    file?: boolean;
+    files?: boolean;
+}
+
+/**
+ * A request that matched its schema, with every value converted.
+ */
+interface ParsedRequest<S extends RequestSchema> {
+    params: Infer<S['params']>;
+    query: Infer<S['query']>;
+    body: Infer<S['body']>;
+    file: S['file'] extends true ? Express.Multer.File : undefined;
+    files: S['files'] extends true ? Express.Multer.File[] : undefined;
+}
+
+/**
+ * Builds the fields schemas are made of.
+ */
+const field = {
+    /**
+     * @param {Object} [options] - The smallest and largest accepted value.
+     * @return {Field<number>} - A whole number.
+     */
+    integer(options: { min?: number, max?: number } = {}): Field<number> {
+        const min = options.min ?? 0;
+        const max = options.max ?? MAX_INT;
+
+        return new Field<number>(value => {
+            const parsed = typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+
+            if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+                throw new Error(`has to be a whole number between ${min} and ${max}.`);
             }
 
-        case RequestType.DELETE_PROFILE:
-            if (!id || id === undefined || id == "undefined") {
-                return false;
-            } else {
+            return parsed;
+        });
+    },
+
+    /**
+     * @return {Field<number>} - The ID of a user or listing.
+     */
+    id(): Field<number> {
+        return field.integer({ min: 1 });
+    },
+
+    /**
+     * @param {Object} [options] - The longest accepted value, and a pattern it has to match.
+     * @return {Field<string>} - A string.
+     */
+    string(options: { maxLength?: number, pattern?: RegExp } = {}): Field<string> {
+        const maxLength = options.maxLength ?? 255;
+
+        return new Field<string>(value => {
+            if (typeof value !== 'string' || value.length > maxLength) {
+                throw new Error(`has to be a string of at most ${maxLength} characters.`);
+            }
+
+            if (options.pattern && !options.pattern.test(value)) {
+                throw new Error("has an invalid format.");
+            }
+
+            return value;
+        });
+    },
+
+    /**
+     * @param {Object} [options] - The hosts the URL may point at. Any host is accepted without them.
+     * @return {Field<string>} - An absolute http or https URL.
+     */
+    url(options: { hosts?: string[] } = {}): Field<string> {
+        return new Field<string>(value => {
+            let parsed: URL | null = null;
+            try {
+                parsed = typeof value === 'string' && value.length <= 2048 ? new URL(value) : null;
+            } catch (error) {
+                parsed = null;
+            }
+
+            if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+                throw new Error("has to be an http or https URL of at most 2048 characters.");
+            }
+
+            if (options.hosts && !options.hosts.includes(parsed.hostname.toLowerCase())) {
+                throw new Error("has to point at one of the allowed hosts.");
+            }
+
+            return value as string;
+        });
+    },
+
+    /**
+     * @return {Field<boolean>} - Either true or false. Multipart bodies send them as strings.
+     */
+    boolean(): Field<boolean> {
+        return new Field<boolean>(value => {
+            if (value === true || value === 'true') {
                 return true;
             }
 
-        case RequestType.DELETE_LISTING:
-            if (!id || id === undefined || id == "undefined" || !index || index === undefined || index == "undefined") {
+            if (value === false || value === 'false') {
                 return false;
-            } else {
-                return true;
             }
+
+            throw new Error("has to be true or false.");
+        });
+    },
+
+    /**
+     * @param {T[]} values - The accepted values.
+     * @return {Field<T>} - One of the given strings.
+     */
+    oneOf<T extends string>(values: readonly T[]): Field<T> {
+        return new Field<T>(value => {
+            if (!values.includes(value as T)) {
+                throw new Error(`has to be one of: ${values.join(', ')}.`);
+            }
+
+            return value as T;
+        });
+    },
+
+    /**
+     * @param {Field<T>} item - The field each entry has to match.
+     * @param {Object} [options] - The largest accepted number of entries.
+     * @return {Field<T[]>} - A JSON array, or a comma-separated string in multipart bodies.
+     */
+    array<T>(item: Field<T>, options: { maxLength?: number } = {}): Field<T[]> {
+        const maxLength = options.maxLength ?? 100;
+
+        return new Field<T[]>(value => {
+            const entries = typeof value === 'string' ? value.split(',').map(entry => entry.trim()) : value;
+
+            if (!Array.isArray(entries) || entries.length > maxLength) {
+                throw new Error(`has to be a list of at most ${maxLength} entries.`);
+            }
+
+            return entries.map((entry, position) => {
+                try {
+                    return item.parse(entry);
+                } catch (error) {
+                    throw new Error(`entry ${position} ${error instanceof Error ? error.message : error}`);
+                }
+            });
+        });
+    },
+};
+
+/**
+ * Converts one part of a request, collecting an error for each invalid field.
+ *
+ * @param {string} part - The part of the request, e.g. "body".
+ * @param {Shape | undefined} shape - The fields the part has to contain.
+ * @param {Record<string, unknown>} values - The raw values of the part.
+ * @param {FieldError[]} errors - Collects the invalid fields.
+ * @return {Record<string, unknown>} - The converted values.
+ */
+function parsePart(part: string, shape: Shape | undefined, values: Record<string, unknown>, errors: FieldError[]): Record<string, unknown> {
+    const parsed: Record<string, unknown> = {};
+
+    for (const [name, definition] of Object.entries(shape ?? {})) {
+        try {
+            parsed[name] = definition.parse(values?.[name]);
+        } catch (error) {
+            errors.push({ field: `${part}.${name}`, message: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return parsed;
+}
+
+/**
+ * Checks a request against its schema and converts its values.
+ *
+ * @param {S} schema - What the route accepts.
+ * @param {Request} req - The Express Request object. Multipart bodies have to be parsed already.
+ * @return {ParsedRequest<S>} - The converted values.
+ * @throws {RequestValidationError} - If any field is missing or invalid.
+ */
+function parseRequest<S extends RequestSchema>(schema: S, req: Request): ParsedRequest<S> {
+    const errors: FieldError[] = [];
+
+    const parsed = {
+        params: parsePart('params', schema.params, req.params, errors),
+        query: parsePart('query', schema.query, req.query, errors),
+        body: parsePart('body', schema.body, req.body, errors),
+        file: req.file,
+        files: Array.isArray(req.files) ? req.files : undefined,
+    };
+
+    if (schema.file && !req.file) {
+        errors.push({ field: "file", message: "is required." });
+    }
+
+    if (schema.files && !parsed.files?.length) {
+        errors.push({ field: "files", message: "is required." });
+    }
+
+    if (errors.length > 0) {
+        throw new RequestValidationError(errors);
     }
+
+    return parsed as unknown as ParsedRequest<S>;
 }
 
-export { requestValidation, RequestType };
+/**
+ * Validates a request against its schema, responding with every invalid field if it does not match.
+ *
+ * @param {S} schema - What the route accepts.
+ * @param {Request} req - The Express Request object.
+ * @param {Response} res - The Express Response object.
+ * @return {ParsedRequest<S> | null} - The converted values, or null if a rejection has been sent.
+ */
+function validateRequest<S extends RequestSchema>(schema: S, req: Request, res: Response): ParsedRequest<S> | null {
+    try {
+        const parsed = parseRequest(schema, req);
+        log("Request validated. All required parameters present.");
+        return parsed;
+    } catch (error) {
+        if (error instanceof RequestValidationError) {
+            res.status(400).json({ message: "Missing or invalid required parameters.", code: "INVALID_REQUEST", errors: error.errors });
+            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING, { errors: error.errors });
+            return null;
+        }
+
+        throw error;
+    }
+}
+
+/**
+ * Defines a schema, keeping its exact field types so handlers get typed values.
+ *
+ * @param {S} schema - What the route accepts.
+ * @return {S} - The same schema.
+ */
+function defineSchema<S extends RequestSchema>(schema: S): S {
+    return schema;
+}
+
+const visibility = () => field.oneOf(['public', 'private'] as const);
+const imageType = () => field.oneOf(['profile', 'listing'] as const);
+
+// Size and format names are checked against the configuration by the handlers.
+const imageQuery = {
+    size: field.string({ maxLength: 32 }).optional(),
+    format: field.string({ maxLength: 32 }).optional(),
+};
+
+// Uploads and updates can be queued instead of processed while the client waits. The callback is only used then.
+const queueOptions = {
+    async: field.boolean().default(false),
+    callbackUrl: field.url({ hosts: config.jobs.callbackHosts }).optional(),
+};
+
+/**
+ * What each route accepts.
+ */
+const schemas = {
+    uploadProfile: defineSchema({
+        body: { id: field.id(), visibility: visibility().default('public'), ...queueOptions },
+        file: true,
+    }),
+    uploadListing: defineSchema({
+        body: { id: field.id(), index: field.integer(), visibility: visibility().default('public'), ...queueOptions },
+        file: true,
+    }),
+    // Updates keep the visibility of the current image unless one is given.
+    updateProfile: defineSchema({
+        body: { id: field.id(), visibility: visibility().optional(), ...queueOptions },
+        file: true,
+    }),
+    updateListing: defineSchema({
+        body: { id: field.id(), index: field.integer(), visibility: visibility().optional(), ...queueOptions },
+        file: true,
+    }),
+    deleteProfile: defineSchema({
+        body: { id: field.id() },
+    }),
+    deleteListing: defineSchema({
+        body: { id: field.id(), index: field.integer() },
+    }),
+    retrieveProfile: defineSchema({
+        params: { id: field.id() },
+        query: imageQuery,
+    }),
+    retrieveListing: defineSchema({
+        params: { id: field.id(), index: field.integer() },
+        query: imageQuery,
+    }),
+    // Search and feed pages look up a page of 50 cards at once, so each list is capped at two pages' worth.
+    retrieveBulk: defineSchema({
+        body: {
+            listingIds: field.array(field.id(), { maxLength: 100 }).optional(),
+            userIds: field.array(field.id(), { maxLength: 100 }).optional(),
+            ...imageQuery,
+        },
+    }),
+    // Anything other than a preset or a format has to be signed, see the transformation route.
+    transformImage: defineSchema({
+        query: {
+            w: field.integer({ min: 1, max: MAX_TRANSFORM_DIMENSION }).optional(),
+            h: field.integer({ min: 1, max: MAX_TRANSFORM_DIMENSION }).optional(),
+            fit: field.oneOf(TRANSFORM_FITS).optional(),
+            q: field.integer({ min: 1, max: 100 }).optional(),
+            format: field.oneOf([...TRANSFORM_FORMATS, 'original'] as const).optional(),
+            preset: field.string({ maxLength: 32 }).optional(),
+            sig: field.string({ maxLength: 64, pattern: /^[0-9a-f]+$/ }).optional(),
+        },
+    }),
+    getGallery: defineSchema({
+        params: { id: field.id() },
+        query: imageQuery,
+    }),
+    appendListing: defineSchema({
+        body: { id: field.id(), visibility: visibility().default('public') },
+        file: true,
+    }),
+    reorderListing: defineSchema({
+        body: { id: field.id(), order: field.array(field.integer()) },
+    }),
+    removeListing: defineSchema({
+        body: { id: field.id(), index: field.integer() },
+    }),
+    // Without indexes, the images are appended to the gallery in the order they were sent.
+    uploadListingBatch: defineSchema({
+        body: {
+            id: field.id(),
+            indexes: field.array(field.integer()).optional(),
+            visibility: visibility().default('public'),
+            atomic: field.boolean().default(false),
+        },
+        files: true,
+    }),
+    // The index is optional for listings; without one the image is appended when the upload is finalized.
+    requestUpload: defineSchema({
+        body: {
+            type: imageType(),
+            id: field.id(),
+            index: field.integer().optional(),
+            contentType: field.string({ maxLength: 64, pattern: /^image\/[\w.+-]+$/ }),
+            size: field.integer({ min: 1 }),
+            visibility: visibility().default('public'),
+        },
+    }),
+    finalizeUpload: defineSchema({
+        body: { token: field.string({ maxLength: 64, pattern: /^[0-9a-f]+$/ }) },
+    }),
+    getJob: defineSchema({
+        params: { id: field.string({ maxLength: 36, pattern: /^[0-9a-f-]+$/ }) },
+    }),
+    listWebhookDeliveries: defineSchema({
+        query: {
+            status: field.oneOf(['pending', 'delivered', 'failed'] as const).optional(),
+            eventId: field.string({ maxLength: 36, pattern: /^[0-9a-f-]+$/ }).optional(),
+            limit: field.integer({ min: 1, max: 100 }).default(50),
+        },
+    }),
+    getWebhookDelivery: defineSchema({
+        params: { id: field.id() },
+    }),
+    replayWebhookDelivery: defineSchema({
+        params: { id: field.id() },
+    }),
+    changeProfileVisibility: defineSchema({
+        body: { id: field.id(), visibility: visibility() },
+    }),
+    changeListingVisibility: defineSchema({
+        body: { id: field.id(), index: field.integer(), visibility: visibility() },
+    }),
+    // The v2 API names the profile or listing in the path, and takes the rest from the query and the form.
+    getProfileImage: defineSchema({
+        params: { userId: field.id() },
+        query: imageQuery,
+    }),
+    putProfileImage: defineSchema({
+        params: { userId: field.id() },
+        body: { visibility: visibility().optional() },
+        file: true,
+    }),
+    deleteProfileImage: defineSchema({
+        params: { userId: field.id() },
+    }),
+    getListingImages: defineSchema({
+        params: { listingId: field.id() },
+        query: imageQuery,
+    }),
+    postListingImage: defineSchema({
+        params: { listingId: field.id() },
+        body: { visibility: visibility().default('public') },
+        file: true,
+    }),
+    getListingImage: defineSchema({
+        params: { listingId: field.id(), index: field.integer() },
+        query: imageQuery,
+    }),
+    putListingImage: defineSchema({
+        params: { listingId: field.id(), index: field.integer() },
+        body: { visibility: visibility().optional() },
+        file: true,
+    }),
+    deleteListingImage: defineSchema({
+        params: { listingId: field.id(), index: field.integer() },
+    }),
+};
+
+export {
+    FieldError,
+    RequestValidationError,
+    Field,
+    RequestSchema,
+    ParsedRequest,
+    field,
+    defineSchema,
+    parseRequest,
+    validateRequest,
+    schemas,
+};
@@ -0,0 +1,286 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import sharp from 'sharp';
+import multer from 'multer';
+import { AsyncResource } from 'async_hooks';
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { log, LogLevel } from '../utils/Logger.ts';
+import { uploadSize } from '../utils/Metrics.ts';
+import { Caller } from './Authentication.ts';
+import { UploadInfo } from '../Images.ts';
+import { config } from '../Config.ts';
+
+/**
+ * An image format uploads can be stored in.
+ */
+type UploadFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'gif';
+
+/**
+ * What an upload turned out to be, based on its content rather than what the client claimed.
+ */
+interface DetectedImage {
+    format: UploadFormat;
+    mimetype: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * Thrown when an upload is not an image the indexer accepts. Carries the status and error code to respond with.
+ */
+class UploadRejectedError extends Error {
+    readonly status: number;
+    readonly code: string;
+
+    constructor(status: number, code: string, message: string) {
+        super(message);
+        this.name = 'UploadRejectedError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+/**
+ * The largest file accepted, both through multer and through direct uploads.
+ * @type {number}
+ */
+const MAX_FILE_SIZE: number = config.uploads.maxFileSize;
+
+const uploadFormats: UploadFormat[] = config.uploads.formats;
+
+// Both limits are checked from the image header, before any pixels are decoded.
+const maxImageDimension: number = config.uploads.maxImageDimension;
+const maxImagePixels: number = config.uploads.maxImagePixels;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+// Markup that turns an image into something a browser could render as a document. Checked anywhere in the file, since
+// polyglots hide it in comments and metadata.
+const MARKUP_PATTERN = /<(script|svg|html|body|iframe|object|embed)[\s>/]|<!doctype\s+html/i;
+
+/**
+ * Detects the format of a file from its leading magic bytes.
+ *
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @return {UploadFormat | null} - The detected format, or null if it is not a supported image format.
+ */
+function sniffFormat(buffer: Buffer): UploadFormat | null {
+    if (buffer.length >= 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
+        return 'jpeg';
+    }
+
+    if (buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+        return 'png';
+    }
+
+    const gifHeader = buffer.toString('latin1', 0, 6);
+    if (gifHeader === 'GIF87a' || gifHeader === 'GIF89a') {
+        return 'gif';
+    }
+
+    if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+        return 'webp';
+    }
+
+    // AVIF is an ISO media file whose ftyp box lists avif as its major or one of its compatible brands.
+    if (buffer.length >= 16 && buffer.toString('latin1', 4, 8) === 'ftyp') {
+        const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+
+        for (let offset = 8; offset + 4 <= boxEnd; offset += 4) {
+            // Bytes 12 to 16 hold the minor version rather than a brand.
+            if (offset === 12) {
+                continue;
+            }
+
+            const brand = buffer.toString('latin1', offset, offset + 4);
+            if (brand === 'avif' || brand === 'avis') {
+                return 'avif';
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Checks that a file is small enough to accept, before it is read into memory if possible.
+ *
+ * @param {number} size - The file size, in bytes.
+ * @throws {UploadRejectedError} - If the file is too large.
+ */
+function checkFileSize(size: number): void {
+    if (size > MAX_FILE_SIZE) {
+        throw new UploadRejectedError(413, 'FILE_TOO_LARGE', `Images are limited to ${MAX_FILE_SIZE / 1024 / 1024}MB.`);
+    }
+}
+
+/**
+ * Checks that an upload really is an image in an accepted format and small enough to process safely.
+ *
+ * The format comes from the file content. The client's Content-Type is ignored, so the stored content type and key
+ * extension always match what is actually stored.
+ *
+ * @param {Buffer} buffer - The uploaded file buffer.
+ * @return {Promise<DetectedImage>} - The detected format and dimensions.
+ * @throws {UploadRejectedError} - If the upload is not acceptable.
+ */
+async function validateImage(buffer: Buffer): Promise<DetectedImage> {
+    uploadSize.observe(buffer.length);
+    checkFileSize(buffer.length);
+
+    const format = sniffFormat(buffer);
+
+    if (!format || !uploadFormats.includes(format)) {
+        throw new UploadRejectedError(415, 'UNSUPPORTED_FORMAT', `Images have to be one of: ${uploadFormats.join(', ')}.`);
+    }
+
+    if (MARKUP_PATTERN.test(buffer.toString('latin1'))) {
+        throw new UploadRejectedError(415, 'EMBEDDED_MARKUP', "Images must not contain embedded markup or scripts.");
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+        metadata = await sharp(buffer).metadata();
+    } catch (error) {
+        throw new UploadRejectedError(422, 'UNREADABLE_IMAGE', "The image could not be read.");
+    }
+
+    // sharp reports AVIF as its container format.
+    const decodedFormat = metadata.format === 'heif' ? 'avif' : metadata.format;
+
+    if (decodedFormat !== format || !metadata.width || !metadata.height) {
+        throw new UploadRejectedError(422, 'UNREADABLE_IMAGE', "The image could not be read.");
+    }
+
+    if (metadata.width > maxImageDimension || metadata.height > maxImageDimension) {
+        throw new UploadRejectedError(422, 'DIMENSIONS_TOO_LARGE', `Images are limited to ${maxImageDimension} pixels in width and height.`);
+    }
+
+    if (metadata.width * metadata.height > maxImagePixels) {
+        throw new UploadRejectedError(422, 'TOO_MANY_PIXELS', `Images are limited to ${maxImagePixels} pixels.`);
+    }
+
+    return { format, mimetype: `image/${format}`, width: metadata.width, height: metadata.height };
+}
+
+/**
+ * Checks whether a Content-Type names a format uploads are accepted in.
+ *
+ * @param {string} contentType - The Content-Type, e.g. "image/png".
+ * @return {boolean} - Returns true if the format is accepted, false otherwise.
+ */
+function isAcceptedContentType(contentType: string): boolean {
+    return uploadFormats.some(format => `image/${format}` === contentType);
+}
+
+/**
+ * Validates the image of a request, responding with the reason if it is rejected.
+ *
+ * @param {Express.Multer.File} file - The uploaded file.
+ * @param {Response} res - The Express Response object.
+ * @return {Promise<DetectedImage | null>} - The detected image, or null if a rejection has been sent.
+ */
+async function checkUpload(file: Express.Multer.File, res: Response): Promise<DetectedImage | null> {
+    try {
+        const image = await validateImage(file.buffer);
+        log(`Detected ${image.mimetype} upload, ${image.width}x${image.height}.`);
+        return image;
+    } catch (error) {
+        if (error instanceof UploadRejectedError) {
+            res.status(error.status).json({ message: error.message, code: error.code });
+            log(`Upload rejected (${error.code}): ${error.message}`, LogLevel.WARNING);
+            return null;
+        }
+
+        throw error;
+    }
+}
+
+/**
+ * Describes who sent an upload and what the file was called, to store with the image.
+ *
+ * @param {Response} res - The Express Response object, carrying the authenticated caller.
+ * @param {Express.Multer.File} [file] - The uploaded file. Direct uploads have none.
+ * @return {UploadInfo} - The uploader and the original file name, cut to the length of their columns.
+ */
+function describeUpload(res: Response, file?: Express.Multer.File): UploadInfo {
+    const caller: Caller | undefined = res.locals.caller;
+    return { originalName: file?.originalname.substring(0, 255) ?? null, uploadedBy: caller?.subject.substring(0, 255) ?? null };
+}
+
+// Files are kept in memory and checked by content once the route runs, so multer only enforces the size limit.
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_FILE_SIZE
+    },
+});
+
+/**
+ * Wraps a multer middleware so its errors are answered with a specific status instead of reaching the default handler.
+ * Multer calls back from stream events, so the callback is bound to keep the request's log context.
+ *
+ * @param {RequestHandler} middleware - The multer middleware.
+ * @return {RequestHandler} - The wrapped middleware.
+ */
+function handleMulter(middleware: RequestHandler): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        middleware(req, res, AsyncResource.bind((error: unknown) => {
+            if (error instanceof multer.MulterError) {
+                const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+                res.status(status).json({ message: "File upload error: " + error.message, code: error.code });
+                log("File upload error: " + error.message, LogLevel.WARNING);
+                return;
+            }
+
+            next(error);
+        }));
+    };
+}
+
+/**
+ * Parses a multipart request with a single image.
+ *
+ * @param {string} [field] - The form field the image is sent in. Defaults to "image".
+ * @return {RequestHandler} - The middleware.
+ */
+function receiveImage(field: string = 'image'): RequestHandler {
+    return handleMulter(upload.single(field));
+}
+
+/**
+ * Parses a multipart request with several images in the same field.
+ *
+ * @param {number} maxCount - The largest number of images accepted. More are rejected with a multer error.
+ * @param {string} [field] - The form field the images are sent in. Defaults to "images".
+ * @return {RequestHandler} - The middleware.
+ */
+function receiveImages(maxCount: number, field: string = 'images'): RequestHandler {
+    return handleMulter(upload.array(field, maxCount));
+}
+
+/**
+ * Parses a multipart request without any files.
+ *
+ * @return {RequestHandler} - The middleware.
+ */
+function receiveForm(): RequestHandler {
+    return handleMulter(upload.none());
+}
+
+export {
+    UploadFormat,
+    DetectedImage,
+    UploadRejectedError,
+    MAX_FILE_SIZE,
+    receiveImage,
+    receiveImages,
+    receiveForm,
+    checkFileSize,
+    validateImage,
+    checkUpload,
+    describeUpload,
+    isAcceptedContentType,
+};
@@ -0,0 +1,263 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { mapConcurrently } from '../../utils/Concurrency.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireOwnership, bodyEntity } from '../Authentication.ts';
+import { receiveImages, validateImage, describeUpload, UploadRejectedError } from '../UploadValidation.ts';
+import { resolveImageUrls } from '../../ImagePipeline.ts';
+import { RetainedImage, retainImage } from '../../Blobs.ts';
+import { commitImageWrite, settleOperation } from '../../PendingOperations.ts';
+import { SlotTakenError, writeImage } from '../../Images.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
+import { MAX_GALLERY_SIZE, nextGalleryIndex } from '../../Gallery.ts';
+import { Visibility } from '../../storage/StorageBackend.ts';
+import { config } from '../../Config.ts';
+
+const app: Express = express();
+const prisma = trackQueryErrors(new PrismaClient());
+
+// How many images of a batch are processed at the same time. Each one holds its decoded pixels in memory.
+const concurrency: number = config.uploads.batchConcurrency;
+
+app.use(express.json());
+
+/**
+ * Why a file of a batch was not stored.
+ */
+interface BatchFailure {
+    status: number;
+    code: string;
+    message: string;
+}
+
+/**
+ * The outcome of a single file of a batch.
+ */
+interface BatchResult {
+    file: string;
+    index: number;
+    status: 'created' | 'failed' | 'rolledBack';
+    imageUrl?: string;
+    variants?: Record<string, string>;
+    expiresAt?: string;
+    error?: { code: string, message: string };
+}
+
+/**
+ * Describes why a file failed, logging errors that are not the client's fault.
+ *
+ * @param {unknown} error - The error the file failed with.
+ * @return {BatchFailure} - The status and code the file would have been rejected with on its own.
+ */
+function describeFailure(error: unknown): BatchFailure {
+    if (error instanceof UploadRejectedError) {
+        return { status: error.status, code: error.code, message: error.message };
+    }
+
+    if (error instanceof SlotTakenError) {
+        return { status: 409, code: "SLOT_TAKEN", message: error.message };
+    }
+
+    log("Batch upload file failed: " + (error instanceof Error ? error.message : error), LogLevel.ERROR);
+    return { status: 500, code: "INTERNAL_ERROR", message: "Internal server error" };
+}
+
+/**
+ * Checks and stores a single file of a batch, without writing its row.
+ *
+ * @param {Express.Multer.File} file - The uploaded file.
+ * @param {Visibility} visibility - The visibility of the image.
+ * @return {Promise<RetainedImage>} - The retained image.
+ * @throws {UploadRejectedError} - If the file is not an image the indexer accepts.
+ */
+async function retainFile(file: Express.Multer.File, visibility: Visibility): Promise<RetainedImage> {
+    const detected = await validateImage(file.buffer);
+    log(`Detected ${detected.mimetype} upload, ${detected.width}x${detected.height}: ${file.originalname}`);
+
+    return retainImage("listing", file.buffer, detected.mimetype, visibility);
+}
+
+/**
+ * Builds the result of a file that was stored.
+ *
+ * @param {Express.Multer.File} file - The uploaded file.
+ * @param {number} index - The index the image was stored at.
+ * @param {RetainedImage} image - The stored image.
+ * @param {Visibility} visibility - The visibility of the image.
+ * @param {string} [accept] - The Accept header of the request.
+ * @return {Promise<BatchResult>} - The result with the URLs of the image.
+ */
+async function createdResult(file: Express.Multer.File, index: number, image: RetainedImage, visibility: Visibility, accept?: string): Promise<BatchResult> {
+    const urls = await resolveImageUrls(image.key, image.variants, { accept, visibility });
+    return { file: file.originalname, index, status: 'created', imageUrl: urls.imageUrl, variants: urls.variants, expiresAt: urls.expiresAt };
+}
+
+/**
+ * @route POST /api/image/upload/listing/batch
+ * @desc Upload several images for a listing in one request.
+ * @param {number} id - The listing ID.
+ * @param {File[]} images - The image files, at most one gallery's worth.
+ * @param {number[]} [indexes] - The index of each file, as a list or comma-separated. Defaults to appending them in order.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to public.
+ * @param {boolean} [atomic] - Store either every file or none of them. Defaults to false.
+ * @returns {Object[]} results - The index, status and URLs or error of each file, in the order they were sent.
+ */
+app.post('/api/image/upload/listing/batch', authenticate, receiveImages(MAX_GALLERY_SIZE), requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to upload a batch of listing images. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.uploadListingBatch, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, visibility, atomic } = input.body;
+        const files = input.files;
+
+        addLogContext({ entityId: id, files: files.length, atomic });
+
+        if (input.body.indexes && input.body.indexes.length !== files.length) {
+            res.status(400).json({ message: "Expected one index for every image.", code: "INDEX_MISMATCH" });
+            log("Number of indexes does not match the number of images. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        const first = input.body.indexes ? 0 : await nextGalleryIndex(id);
+        const indexes = input.body.indexes ?? files.map((file, position) => first + position);
+
+        if (new Set(indexes).size !== indexes.length) {
+            res.status(400).json({ message: "Every image needs a different index.", code: "DUPLICATE_INDEX" });
+            log("Duplicate indexes in batch. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        if (indexes.some(index => index >= MAX_GALLERY_SIZE)) {
+            res.status(400).json({ message: `Listing galleries are limited to ${MAX_GALLERY_SIZE} images.`, code: "GALLERY_FULL" });
+            log("Batch does not fit into the listing gallery. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        const taken = new Set((await prisma.listing.findMany({
+            where: {
+                listingId: id,
+                index: { in: indexes }
+            }
+        })).map(listing => listing.index));
+
+        if (atomic && taken.size > 0) {
+            res.status(409).json({ message: `Listing images already exist at: ${[...taken].join(', ')}.`, code: "SLOT_TAKEN" });
+            log("Listing image slots are taken. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        let results: BatchResult[];
+
+        if (atomic) {
+            log(`Storing ${files.length} images, all or nothing...`);
+            const retained = await mapConcurrently(files, concurrency, async (file): Promise<{ image?: RetainedImage, failure?: BatchFailure }> => {
+                try {
+                    return { image: await retainFile(file, visibility) };
+                } catch (error) {
+                    return { failure: describeFailure(error) };
+                }
+            });
+
+            const images = retained.flatMap(entry => entry.image ? [entry.image] : []);
+            let failure = retained.find(entry => entry.failure)?.failure;
+
+            if (!failure) {
+                try {
+                    await commitImageWrite(images, async (tx) => {
+                        for (let position = 0; position < files.length; position++) {
+                            const created = await tx.listing.create({
+                                data: {
+                                    listingId: id,
+                                    index: indexes[position],
+                                    image: images[position].key,
+                                    variants: images[position].variants,
+                                    visibility,
+                                    ...describeUpload(res, files[position]),
+                                }
+                            });
+                            await recordImageEvent(tx, 'image.created', { type: 'listing', id, index: created.index }, { new: created });
+                        }
+                    });
+                } catch (error) {
+                    // The images were released again by commitImageWrite.
+                    failure = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+                        ? { status: 409, code: "SLOT_TAKEN", message: "Another image was stored in one of the slots at the same time." }
+                        : describeFailure(error);
+                    retained.forEach(entry => entry.failure ??= failure);
+                }
+            } else {
+                log("A file of the batch failed, releasing the stored images...", LogLevel.WARNING);
+                for (const image of images) {
+                    await settleOperation(image.operationId);
+                }
+            }
+
+            if (failure) {
+                results = files.map((file, position) => {
+                    const own = retained[position].failure;
+                    return own
+                        ? { file: file.originalname, index: indexes[position], status: 'failed', error: { code: own.code, message: own.message } }
+                        : { file: file.originalname, index: indexes[position], status: 'rolledBack', error: { code: "ROLLED_BACK", message: "Another image of the batch failed." } };
+                });
+
+                const status = retained.some(entry => entry.failure?.status === 500) ? 500 : failure.status;
+                res.status(status).json({ message: "Batch upload failed. No images were stored.", created: 0, failed: files.length, results });
+                log("Batch upload rolled back.", LogLevel.WARNING);
+                return;
+            }
+
+            results = await Promise.all(files.map((file, position) =>
+                createdResult(file, indexes[position], images[position], visibility, req.headers.accept)));
+        } else {
+            log(`Storing ${files.length} images...`);
+            results = await mapConcurrently(files, concurrency, async (file, position): Promise<BatchResult> => {
+                const index = indexes[position];
+
+                try {
+                    if (taken.has(index)) {
+                        throw new SlotTakenError({ type: 'listing', id, index });
+                    }
+
+                    const image = await retainFile(file, visibility);
+                    await writeImage({ type: 'listing', id, index }, image, visibility, null, describeUpload(res, file));
+                    return await createdResult(file, index, image, visibility, req.headers.accept);
+                } catch (error) {
+                    const failure = describeFailure(error);
+                    return { file: file.originalname, index, status: 'failed', error: { code: failure.code, message: failure.message } };
+                }
+            });
+        }
+
+        const created = results.filter(result => result.status === 'created').length;
+        const failed = results.length - created;
+
+        // 207 tells the client to look at each result, since some files were stored and some were not.
+        let status = failed === 0 ? 201 : 207;
+        if (created === 0) {
+            status = results.some(result => result.error?.code === "INTERNAL_ERROR") ? 500 : 422;
+        }
+
+        res.status(status).json({ message: `Stored ${created} of ${results.length} images.`, created, failed, results });
+        log(`Batch upload complete. ${created} stored, ${failed} failed.`);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -1,31 +1,19 @@
 // Copyright (c) BrowseBox. Licensed under the MIT Licence.
 // See the LICENCE file in the repository root for full licence text.
 
-import express, { Express, Request } from 'express';
-import multer, { Options } from 'multer';
+import express, { Express } from 'express';
 
 import { PrismaClient } from '@prisma/client';
-import { deleteFile } from '../../S3.ts';
-import { log, LogLevel, padText } from '../../utils/Logger.ts';
-import { requestValidation, RequestType } from '../RequestValidation.ts';
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireOwnership, bodyEntity } from '../Authentication.ts';
+import { receiveImage } from '../UploadValidation.ts';
+import { commitImageWrite } from '../../PendingOperations.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
 
 const app: Express = express();
-const prisma = new PrismaClient();
-
-// Multer configuration details.
-const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: {
-        fileSize: 10 * 1024 * 1024
-    },
-    fileFilter: (req: Request, file: Express.Multer.File, cb: (error: Error | null, acceptFile: boolean) => void) => {
-        if (file.mimetype.startsWith('image/')) {
-            cb(null, true);
-        } else {
-            cb(new Error('Invalid file type'), false);
-        }
-    },
-} as Options);
+const prisma = trackQueryErrors(new PrismaClient());
 
 app.use(express.json());
 
@@ -34,49 +22,38 @@ app.use(express.json());
  * @desc Delete an existing image for a user profile.
  * @param {number} id - The user ID.
  */
-app.post("/api/image/delete/profile", upload.single('image'), async (req, res) => {
+app.post("/api/image/delete/profile", authenticate, receiveImage(), requireOwnership(bodyEntity('profile')), async (req, res) => {
     let profile;
 
     try {
         log("| Received API request to delete a profile image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.body.id;
-
-        if (!requestValidation(RequestType.DELETE_PROFILE, req)) {
-            res.status(400).json({ message: "Missing or invalid required parameters." });
-            log(padText("ID:", 16) + id);
-            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING);
+        const input = validateRequest(schemas.deleteProfile, req, res);
+        if (!input) {
             return;
-        } else {
-            log("Request validated. All required parameters present.");
         }
 
-        log(padText("ID:", 16) + id);
+        const { id } = input.body;
+
+        addLogContext({ entityId: id });
 
         log("Deleting profile image...");
         profile = await prisma.profile.findUnique({
             where: {
-                userId: parseInt(id)
+                userId: id
             }
-        }).catch(error => {
-            log("Database error while fetching profile: " + error.message, LogLevel.ERROR);
-            res.status(500).json({ message: "Database error while fetching profile." });
-            return;
         });
 
         if (profile) {
-            await prisma.profile.delete({
-                where: {
-                    userId: parseInt(id)
-                }
-            }).catch(error => {
-                log("Database error while deleting profile: " + error.message, LogLevel.ERROR);
-                res.status(500).json({ message: "Database error while deleting profile." });
-                return;
-            });
-
-            log("Deleting image from S3...");
-            await deleteFile(profile.image);
+            await commitImageWrite(null, async (tx) => {
+                const deleted = await tx.profile.delete({
+                    where: {
+                        userId: id
+                    }
+                });
+                await recordImageEvent(tx, 'image.deleted', { type: 'profile', id }, { old: deleted });
+                return deleted;
+            }, deleted => [{ action: 'release', key: deleted.image, variants: deleted.variants }]);
 
             res.status(200).json({ message: "Profile image deleted." });
             log("Profile image deleted.");
@@ -103,54 +80,44 @@ app.post("/api/image/delete/profile", upload.single('image'), async (req, res) =
  * @param {number} id - The listing ID.
  * @param {number} index - The order of the image for listing images.
  */
-app.post("/api/image/delete/listing", upload.single('image'), async (req, res) => {
+app.post("/api/image/delete/listing", authenticate, receiveImage(), requireOwnership(bodyEntity('listing')), async (req, res) => {
     let listing;
 
     try {
         log("| Received API request to delete a listing image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.body.id;
-        const index = req.body.index;
-
-        if (!requestValidation(RequestType.DELETE_LISTING, req)) {
-            res.status(400).json({ message: "Missing or invalid required parameters." });
-            log(padText("ID:", 16) + id);
-            log(padText("Index:", 16) + index);
-            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING);
+        const input = validateRequest(schemas.deleteListing, req, res);
+        if (!input) {
             return;
-        } else {
-            log("Request validated. All required parameters present.");
         }
 
-        log(padText("ID:", 16) + id);
-        log(padText("Index:", 16) + index);
+        const { id, index } = input.body;
+
+        addLogContext({ entityId: id, index });
 
         log("Deleting listing image...");
-        listing = await prisma.listing.findFirst({
+        listing = await prisma.listing.findUnique({
             where: {
-                listingId: parseInt(id),
-                index: parseInt(index)
+                listingId_index: {
+                    listingId: id,
+                    index
+                }
             }
-        }).catch(error => {
-            log("Database error while fetching listing: " + error.message, LogLevel.ERROR);
-            res.status(500).json({ message: "Database error while fetching listing." });
-            return;
         });
 
         if (listing) {
-            await prisma.listing.deleteMany({
-                where: {
-                    listingId: parseInt(id),
-                    index: parseInt(index)
-                }
-            }).catch(error => {
-                log("Database error while deleting listing: " + error.message, LogLevel.ERROR);
-                res.status(500).json({ message: "Database error while deleting listing." });
-                return;
-            });
-
-            log("Deleting image from S3...");
-            await deleteFile(listing.image);
+            await commitImageWrite(null, async (tx) => {
+                const deleted = await tx.listing.delete({
+                    where: {
+                        listingId_index: {
+                            listingId: id,
+                            index
+                        }
+                    }
+                });
+                await recordImageEvent(tx, 'image.deleted', { type: 'listing', id, index }, { old: deleted });
+                return deleted;
+            }, deleted => [{ action: 'release', key: deleted.image, variants: deleted.variants }]);
 
             res.status(200).json({ message: "Listing image deleted." });
             log("Listing image deleted.");
@@ -0,0 +1,345 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import crypto from 'crypto';
+
+import express, { Express, Request, Response } from 'express';
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { OwnedEntity, authenticate, requireOwnership } from '../Authentication.ts';
+import { UploadRejectedError, DetectedImage, validateImage, checkFileSize, isAcceptedContentType, describeUpload } from '../UploadValidation.ts';
+import { MAX_GALLERY_SIZE, GalleryFullError, nextGalleryIndex } from '../../Gallery.ts';
+import { resolveImageUrls } from '../../ImagePipeline.ts';
+import { retainImage } from '../../Blobs.ts';
+import { commitImageWrite } from '../../PendingOperations.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
+import { storage } from '../../storage/Storage.ts';
+import { StoredObject, Visibility } from '../../storage/StorageBackend.ts';
+import { config } from '../../Config.ts';
+
+const app: Express = express();
+const prisma = trackQueryErrors(new PrismaClient());
+
+// How long a presigned upload URL, and the pending upload behind it, stays valid.
+const uploadTtl: number = config.uploads.directUploadTtl;
+
+app.use(express.json());
+
+/**
+ * Resolves the profile or listing a direct upload is requested for.
+ *
+ * @param {Request} req - The Express Request object.
+ * @return {OwnedEntity | null} - The entity, or null if the request does not name a valid one.
+ */
+function requestedEntity(req: Request): OwnedEntity | null {
+    const id = parseInt(req.body.id);
+    const type = req.body.type;
+
+    return (type === "profile" || type === "listing") && !isNaN(id) ? { type, id } : null;
+}
+
+/**
+ * Resolves the profile or listing a pending upload was requested for, so only the same owner can finalize it.
+ *
+ * @param {Request} req - The Express Request object.
+ * @return {Promise<OwnedEntity | null>} - The entity, or null if the token is unknown.
+ */
+async function pendingEntity(req: Request): Promise<OwnedEntity | null> {
+    if (typeof req.body.token !== "string") {
+        return null;
+    }
+
+    const pending = await prisma.pendingUpload.findUnique({ where: { token: req.body.token } });
+    return pending ? { type: pending.type as OwnedEntity['type'], id: pending.entityId } : null;
+}
+
+/**
+ * @route POST /api/image/upload/request
+ * @desc Reserve a profile or listing slot and get a presigned URL to upload the image to storage directly.
+ * @param {string} type - The image type, either "profile" or "listing".
+ * @param {number} id - The user ID for profiles or listing ID for listings.
+ * @param {number} [index] - The listing slot. Listing images without an index are appended to the gallery.
+ * @param {string} contentType - The MIME type of the image that will be uploaded.
+ * @param {number} size - The size of the image that will be uploaded, in bytes. The upload URL accepts no other size.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to public.
+ * @returns {string} uploadUrl - The URL to PUT the image to, with the given Content-Type and Content-Length headers.
+ * @returns {string} token - The token to finalize the upload with.
+ */
+app.post('/api/image/upload/request', authenticate, requireOwnership(requestedEntity), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to start a direct upload. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.requestUpload, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { type, id, index, contentType, size, visibility } = input.body;
+
+        addLogContext({ imageType: type, entityId: id, index, contentType });
+
+        if (!isAcceptedContentType(contentType)) {
+            res.status(415).json({ message: "Unsupported image format.", code: "UNSUPPORTED_FORMAT" });
+            log("Unsupported content type. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        try {
+            checkFileSize(size);
+        } catch (error) {
+            if (error instanceof UploadRejectedError) {
+                res.status(error.status).json({ message: error.message, code: error.code });
+                log(`Upload rejected (${error.code}): ${error.message}`, LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
+        if (!storage.createUploadUrl) {
+            res.status(501).json({ message: "Direct uploads are not supported by the configured storage backend." });
+            log("Storage backend does not support direct uploads. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        // Reject slots that are already taken up front, so the client does not upload a file that cannot be used.
+        if (type === "profile") {
+            const profileCheck = await prisma.profile.findUnique({ where: { userId: id } });
+            if (profileCheck) {
+                res.status(400).json({ message: "Profile already exists." });
+                log("Profile already exists. Aborting.", LogLevel.WARNING);
+                return;
+            }
+        } else if (index !== undefined) {
+            const listingCheck = await prisma.listing.findUnique({
+                where: { listingId_index: { listingId: id, index } }
+            });
+            if (listingCheck || index >= MAX_GALLERY_SIZE) {
+                res.status(400).json({ message: "Listing image slot is not available." });
+                log("Listing image slot is not available. Aborting.", LogLevel.WARNING);
+                return;
+            }
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const key = `uploads/pending/${token}`;
+        const expiresAt = new Date(Date.now() + uploadTtl * 1000);
+
+        log("Creating pending upload in database...");
+        await prisma.pendingUpload.create({
+            data: {
+                token,
+                type,
+                entityId: id,
+                index: type === "listing" ? index ?? null : null,
+                key,
+                contentType,
+                visibility,
+                expiresAt,
+            }
+        });
+
+        const uploadUrl = await storage.createUploadUrl(key, contentType, size, uploadTtl);
+
+        log("Sending presigned upload URL to client.");
+        res.status(200).json({
+            message: "Upload URL created.",
+            token,
+            uploadUrl,
+            headers: { 'Content-Type': contentType, 'Content-Length': String(size) },
+            expiresAt: expiresAt.toISOString(),
+        });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/image/upload/finalize
+ * @desc Process a directly uploaded image, move it to its content-addressed key and save it to its slot.
+ * @param {string} token - The token returned when the upload was requested.
+ */
+app.post('/api/image/upload/finalize', authenticate, requireOwnership(pendingEntity), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to finalize a direct upload. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.finalizeUpload, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { token } = input.body;
+
+        const pending = await prisma.pendingUpload.findUnique({ where: { token } });
+
+        if (!pending) {
+            res.status(404).json({ message: "Pending upload not found." });
+            log("Pending upload not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        addLogContext({ imageType: pending.type, entityId: pending.entityId, index: pending.index });
+
+        // The sweep or a concurrent finalize may remove the pending upload at any time, so it may already be gone here.
+        if (pending.expiresAt.getTime() < Date.now()) {
+            await prisma.pendingUpload.deleteMany({ where: { token } });
+            await storage.delete(pending.key);
+            res.status(410).json({ message: "Pending upload has expired." });
+            log("Pending upload has expired. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        log("Verifying uploaded object...");
+        const uploaded = await storage.stat(pending.key);
+
+        if (!uploaded) {
+            res.status(400).json({ message: "The image has not been uploaded yet." });
+            log("Uploaded object not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        // Direct uploads skip multer, so the file size limit is enforced here along with the content checks. The size
+        // is checked before the object is read, so an oversized object is never buffered. The Content-Type the client
+        // uploaded with is not trusted either.
+        let object: StoredObject | null;
+        let detected: DetectedImage;
+        try {
+            checkFileSize(uploaded.size);
+
+            object = await storage.get(pending.key);
+            if (!object) {
+                res.status(400).json({ message: "The image has not been uploaded yet." });
+                log("Uploaded object not found. Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            detected = await validateImage(object.buffer);
+        } catch (error) {
+            if (error instanceof UploadRejectedError) {
+                await prisma.pendingUpload.deleteMany({ where: { token } });
+                await storage.delete(pending.key);
+                res.status(error.status).json({ message: error.message, code: error.code });
+                log(`Upload rejected (${error.code}): ${error.message}`, LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
+        const visibility = pending.visibility as Visibility;
+
+        if (pending.type === "profile") {
+            const profileCheck = await prisma.profile.findUnique({ where: { userId: pending.entityId } });
+            if (profileCheck) {
+                res.status(400).json({ message: "Profile already exists." });
+                log("Profile already exists. Aborting.", LogLevel.WARNING);
+                return;
+            }
+        } else {
+            const index = pending.index ?? await nextGalleryIndex(pending.entityId);
+
+            const listingCheck = await prisma.listing.findUnique({
+                where: { listingId_index: { listingId: pending.entityId, index } }
+            });
+            if (listingCheck || index >= MAX_GALLERY_SIZE) {
+                res.status(400).json({ message: "Listing image slot is not available." });
+                log("Listing image slot is not available. Aborting.", LogLevel.WARNING);
+                return;
+            }
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage(pending.type, object.buffer, detected.mimetype, visibility);
+        const key = image.key;
+        log(`Image key: ${key}`);
+
+        // The pending upload is removed in the same transaction, and the staging object once it has committed. An
+        // appended image's index is found again inside the transaction, since other appends may have filled the gallery
+        // while the image was processed. Of two writes that still race for the same slot, the second one fails on the key.
+        log("Creating " + pending.type + " image in database and removing pending upload...");
+        let index: number | null;
+        try {
+            index = await commitImageWrite(image, async (tx) => {
+                await tx.pendingUpload.delete({ where: { token } });
+
+                if (pending.type === "profile") {
+                    const created = await tx.profile.create({
+                        data: {
+                            userId: pending.entityId,
+                            image: key,
+                            variants: image.variants,
+                            visibility,
+                            ...describeUpload(res),
+                        }
+                    });
+                    await recordImageEvent(tx, 'image.created', { type: 'profile', id: pending.entityId }, { new: created });
+                    return null;
+                }
+
+                const slot = pending.index ?? await nextGalleryIndex(pending.entityId, tx);
+                if (slot >= MAX_GALLERY_SIZE) {
+                    throw new GalleryFullError();
+                }
+
+                const created = await tx.listing.create({
+                    data: {
+                        listingId: pending.entityId,
+                        index: slot,
+                        image: key,
+                        variants: image.variants,
+                        visibility,
+                        ...describeUpload(res),
+                    }
+                });
+                await recordImageEvent(tx, 'image.created', { type: 'listing', id: pending.entityId, index: slot }, { new: created });
+                return slot;
+            }, () => [{ action: 'delete', key: pending.key }]);
+        } catch (error) {
+            if (error instanceof GalleryFullError) {
+                res.status(400).json({ message: error.message });
+                log("Listing gallery is full. Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                res.status(409).json({ message: "Another image was saved to the same slot at the same time. Try again.", code: "SLOT_TAKEN" });
+                log("Image slot was taken by another upload. Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+                res.status(404).json({ message: "Pending upload not found." });
+                log("Pending upload was finalized or removed in the meantime. Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+        addLogContext({ index });
+
+        const urls = await resolveImageUrls(key, image.variants, { accept: req.headers.accept, visibility });
+        const url = urls.imageUrl;
+        log("Sending image URL to client.");
+        res.status(200).json({ message: "Image upload complete.", index: index ?? undefined, imageUrl: url, variants: urls.variants, expiresAt: urls.expiresAt });
+        log("Image URL: " + url);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
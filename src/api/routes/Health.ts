@@ -0,0 +1,88 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { PrismaClient } from '@prisma/client';
+import { log, LogLevel } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { storage } from '../../storage/Storage.ts';
+import { config } from '../../Config.ts';
+
+const app: Express = express();
+const prisma = trackQueryErrors(new PrismaClient());
+
+// How long each dependency check may take before it counts as failed, in milliseconds.
+const readinessTimeout: number = config.readinessTimeoutMs;
+
+/**
+ * The outcome of checking a single dependency.
+ */
+interface DependencyStatus {
+    status: 'up' | 'down';
+    durationMs: number;
+    error?: string;
+}
+
+/**
+ * Runs a dependency check, failing it if it does not finish within the readiness timeout.
+ *
+ * @param {Function} check - The check, which throws if the dependency is unavailable.
+ * @return {Promise<DependencyStatus>} - Whether the dependency is up and how long the check took. Never throws.
+ */
+async function checkDependency(check: () => Promise<unknown>): Promise<DependencyStatus> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+        await Promise.race([
+            check(),
+            new Promise((resolve, reject) => {
+                timer = setTimeout(() => reject(new Error(`Timed out after ${readinessTimeout}ms`)), readinessTimeout);
+            }),
+        ]);
+
+        return { status: 'up', durationMs: Date.now() - started };
+    } catch (error) {
+        return {
+            status: 'down',
+            durationMs: Date.now() - started,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * @route GET /healthz
+ * @desc Report that the process is running. Does not check any dependency, so a database or storage outage does not
+ * get the indexer restarted.
+ */
+app.get('/healthz', (req: Request, res: Response) => {
+    res.status(200).json({ status: "ok" });
+});
+
+/**
+ * @route GET /readyz
+ * @desc Report whether the indexer can serve requests, by checking that the database and storage backend respond.
+ * Responds with 503 and the failing dependencies if either is unavailable.
+ */
+app.get('/readyz', async (req: Request, res: Response) => {
+    const [database, storageStatus] = await Promise.all([
+        checkDependency(() => prisma.$queryRaw`SELECT 1`),
+        checkDependency(() => storage.checkHealth()),
+    ]);
+
+    const checks = { database, storage: storageStatus };
+    const ready = database.status === 'up' && storageStatus.status === 'up';
+
+    if (!ready) {
+        const failing = Object.entries(checks).filter(([, check]) => check.status === 'down').map(([name, check]) => `${name} (${check.error})`);
+        log("Not ready, unavailable dependencies: " + failing.join(', '), LogLevel.WARNING);
+    }
+
+    res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "unavailable", checks });
+});
+
+module.exports = app;
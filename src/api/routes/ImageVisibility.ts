@@ -0,0 +1,140 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { PrismaClient } from '@prisma/client';
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireOwnership, bodyEntity } from '../Authentication.ts';
+import { resolveImageUrls } from '../../ImagePipeline.ts';
+import { commitImageWrite } from '../../PendingOperations.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
+
+const app: Express = express();
+const prisma = trackQueryErrors(new PrismaClient());
+
+app.use(express.json());
+
+/**
+ * @route POST /api/image/visibility/profile
+ * @desc Make a profile image public or private.
+ * @param {number} id - The user ID.
+ * @param {string} visibility - Either "public" or "private".
+ */
+app.post('/api/image/visibility/profile', authenticate, requireOwnership(bodyEntity('profile')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to change profile image visibility. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.changeProfileVisibility, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, visibility } = input.body;
+
+        addLogContext({ entityId: id, visibility });
+
+        const profile = await prisma.profile.findUnique({
+            where: {
+                userId: id
+            }
+        });
+
+        if (!profile) {
+            res.status(404).json({ message: "Profile not found." });
+            log("Profile not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        log("Updating visibility in database and object ACLs...");
+        await commitImageWrite(null, async (tx) => {
+            const updated = await tx.profile.update({
+                where: {
+                    userId: id
+                },
+                data: {
+                    visibility
+                }
+            });
+            await recordImageEvent(tx, 'image.updated', { type: 'profile', id }, { old: profile, new: updated });
+            return updated;
+        }, updated => [{ action: 'sync', key: updated.image, variants: updated.variants }]);
+
+        const urls = await resolveImageUrls(profile.image, profile.variants, { accept: req.headers.accept, visibility });
+        res.status(200).json({ message: "Profile image visibility updated.", visibility, imageUrl: urls.imageUrl, variants: urls.variants, expiresAt: urls.expiresAt });
+        log("Profile image visibility updated.");
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/image/visibility/listing
+ * @desc Make a listing image public or private.
+ * @param {number} id - The listing ID.
+ * @param {number} index - The order of the image for listing images.
+ * @param {string} visibility - Either "public" or "private".
+ */
+app.post('/api/image/visibility/listing', authenticate, requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to change listing image visibility. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.changeListingVisibility, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, index, visibility } = input.body;
+
+        addLogContext({ entityId: id, index, visibility });
+
+        const where = {
+            listingId_index: {
+                listingId: id,
+                index
+            }
+        };
+
+        const listing = await prisma.listing.findUnique({ where });
+
+        if (!listing) {
+            res.status(404).json({ message: "Listing image not found." });
+            log("Listing image not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        log("Updating visibility in database and object ACLs...");
+        await commitImageWrite(null, async (tx) => {
+            const updated = await tx.listing.update({
+                where,
+                data: {
+                    visibility
+                }
+            });
+            await recordImageEvent(tx, 'image.updated', { type: 'listing', id, index }, { old: listing, new: updated });
+            return updated;
+        }, updated => [{ action: 'sync', key: updated.image, variants: updated.variants }]);
+
+        const urls = await resolveImageUrls(listing.image, listing.variants, { accept: req.headers.accept, visibility });
+        res.status(200).json({ message: "Listing image visibility updated.", visibility, imageUrl: urls.imageUrl, variants: urls.variants, expiresAt: urls.expiresAt });
+        log("Listing image visibility updated.");
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
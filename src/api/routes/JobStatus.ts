@@ -0,0 +1,59 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { log, LogLevel } from '../../utils/Logger.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireOwnership, OwnedEntity } from '../Authentication.ts';
+import { findJob, describeJob } from '../../Jobs.ts';
+
+const app: Express = express();
+
+/**
+ * Resolves the entity a queued job writes to, so only its owner can follow the job.
+ *
+ * @param {Request} req - The Express Request object.
+ * @return {Promise<OwnedEntity | null>} - The entity, or null if the job is unknown.
+ */
+async function jobEntity(req: Request): Promise<OwnedEntity | null> {
+    const queued = await findJob(req.params.id);
+    return queued ? { type: queued.type as OwnedEntity['type'], id: queued.entityId } : null;
+}
+
+/**
+ * @route GET /api/image/jobs/:id
+ * @desc Report the progress of a queued upload or update.
+ * @param {string} id - The job ID returned when the image was queued.
+ * @returns {string} status - Either "queued", "processing", "succeeded" or "failed".
+ * @returns {string} [imageUrl] - The URL of the image, once the job has succeeded.
+ * @returns {Object} [error] - The code and message the job failed with.
+ */
+app.get('/api/image/jobs/:id', authenticate, requireOwnership(jobEntity), async (req: Request, res: Response) => {
+    try {
+        const input = validateRequest(schemas.getJob, req, res);
+        if (!input) {
+            return;
+        }
+
+        const queued = await findJob(input.params.id);
+
+        if (!queued) {
+            res.status(404).json({ message: "Job not found." });
+            log("Job not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        res.status(200).json(await describeJob(queued, req.headers.accept));
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -0,0 +1,264 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { Prisma } from '@prisma/client';
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, identify, canView, requireOwnership, bodyEntity } from '../Authentication.ts';
+import { receiveImage, receiveForm, checkUpload, describeUpload } from '../UploadValidation.ts';
+import { checkSize, resolveImageUrls } from '../../ImagePipeline.ts';
+import { retainImage } from '../../Blobs.ts';
+import { commitImageWrite } from '../../PendingOperations.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
+import { loadImageMetadata } from '../../Images.ts';
+import { MAX_GALLERY_SIZE, GalleryFullError, InvalidOrderError, getGallery, nextGalleryIndex, reorderGallery, removeGalleryImage } from '../../Gallery.ts';
+
+const app: Express = express();
+
+app.use(express.json());
+
+/**
+ * @route GET /api/image/gallery/listing/:id
+ * @desc Retrieve every image of a listing in display order.
+ * @param {number} id - The listing ID.
+ * @param {string} [size] - The size variant to return as each image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {Object[]} images - The index, URL, variant URLs and metadata of each listing image the caller may see.
+ */
+app.get('/api/image/gallery/listing/:id', identify, async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to retrieve a listing gallery. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.getGallery, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id } = input.params;
+        const { size, format } = input.query;
+
+        addLogContext({ entityId: id });
+
+        if (!checkSize(size, res)) {
+            return;
+        }
+
+        log("Retrieving listing gallery...");
+        const gallery = await getGallery(id);
+
+        const visible = gallery.filter(image => canView(res.locals.caller, { type: 'listing', id: id }, image.visibility));
+
+        const metadata = await loadImageMetadata(visible);
+        const images = await Promise.all(visible.map(async (image, position) => ({
+            index: image.index,
+            visibility: image.visibility,
+            ...await resolveImageUrls(image.image, image.variants, { size, accept: req.headers.accept, format, visibility: image.visibility }),
+            metadata: metadata[position],
+        })));
+
+        log(`Sending ${images.length} image URLs to client.`);
+        res.vary('Accept');
+        res.status(200).json({ images });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/image/gallery/listing/append
+ * @desc Append an image to the end of a listing gallery.
+ * @param {number} id - The listing ID.
+ * @param {File} image - The image file to be uploaded.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to public.
+ */
+app.post('/api/image/gallery/listing/append', authenticate, receiveImage(), requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to append a listing image. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.appendListing, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, visibility } = input.body;
+        const file = input.file;
+
+        addLogContext({ entityId: id, file: file.originalname });
+
+        log("Checking for a free gallery index...");
+        if (await nextGalleryIndex(id) >= MAX_GALLERY_SIZE) {
+            res.status(400).json({ message: `Listing galleries are limited to ${MAX_GALLERY_SIZE} images.` });
+            log("Listing gallery is full. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage("listing", file.buffer, detected.mimetype, visibility);
+        const key = image.key;
+        log(`Image key: ${key}`);
+
+        // The index is found again inside the transaction, since other appends may have filled the gallery while the
+        // image was processed. Of two appends that still race for the same index, the second one fails on the key.
+        log("Creating listing image in database.");
+        let index: number;
+        try {
+            index = await commitImageWrite(image, async (tx) => {
+                const next = await nextGalleryIndex(id, tx);
+                if (next >= MAX_GALLERY_SIZE) {
+                    throw new GalleryFullError();
+                }
+
+                const created = await tx.listing.create({
+                    data: {
+                        listingId: id,
+                        index: next,
+                        image: key,
+                        variants: image.variants,
+                        visibility,
+                        ...describeUpload(res, file),
+                    }
+                });
+                await recordImageEvent(tx, 'image.created', { type: 'listing', id, index: next }, { new: created });
+                return next;
+            });
+        } catch (error) {
+            if (error instanceof GalleryFullError) {
+                res.status(400).json({ message: error.message });
+                log("Listing gallery is full. Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                res.status(409).json({ message: "Another image was appended at the same time. Try again.", code: "SLOT_TAKEN" });
+                log("Gallery index was taken by another append. Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+        addLogContext({ index });
+
+        log("Image upload complete.");
+
+        const urls = await resolveImageUrls(key, image.variants, { accept: req.headers.accept, visibility });
+        const url = urls.imageUrl;
+        log("Sending image URL to client.");
+        res.status(200).json({ message: "Image appended to listing.", index, imageUrl: url, variants: urls.variants, expiresAt: urls.expiresAt });
+        log("Image URL: " + url);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/image/gallery/listing/reorder
+ * @desc Reorder the images of a listing.
+ * @param {number} id - The listing ID.
+ * @param {number[]} order - The current image indexes, listed in their new order.
+ */
+app.post('/api/image/gallery/listing/reorder', authenticate, requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to reorder a listing gallery. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.reorderListing, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, order } = input.body;
+
+        addLogContext({ entityId: id, order });
+
+        let gallery;
+        try {
+            gallery = await reorderGallery(id, order);
+        } catch (error) {
+            if (error instanceof InvalidOrderError) {
+                res.status(400).json({ message: error.message });
+                log("Failed to reorder listing gallery: " + error.message, LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
+        const images = await Promise.all(gallery.map(async image => ({
+            index: image.index,
+            visibility: image.visibility,
+            ...await resolveImageUrls(image.image, image.variants, { accept: req.headers.accept, visibility: image.visibility })
+        })));
+
+        res.status(200).json({ message: "Listing gallery reordered.", images });
+        log("Listing gallery reordered.");
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/image/gallery/listing/remove
+ * @desc Remove one image from a listing and shift the following images down to fill the gap.
+ * @param {number} id - The listing ID.
+ * @param {number} index - The index of the image to remove.
+ */
+app.post('/api/image/gallery/listing/remove', authenticate, receiveForm(), requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to remove a listing image. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.removeListing, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, index } = input.body;
+
+        addLogContext({ entityId: id, index });
+
+        const removed = await removeGalleryImage(id, index);
+
+        if (!removed) {
+            res.status(404).json({ message: "Listing image not found." });
+            log("Listing image not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        res.status(200).json({ message: "Listing image removed." });
+        log("Listing image removed.");
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
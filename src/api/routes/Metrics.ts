@@ -0,0 +1,30 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { log, LogLevel } from '../../utils/Logger.ts';
+import { registry } from '../../utils/Metrics.ts';
+
+const app: Express = express();
+
+/**
+ * @route GET /metrics
+ * @desc Expose the indexer's metrics in the Prometheus text format.
+ */
+app.get('/metrics', async (req: Request, res: Response) => {
+    try {
+        res.setHeader('Content-Type', registry.contentType);
+        res.status(200).send(await registry.metrics());
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -4,12 +4,15 @@
 import express, { Express } from 'express';
 
 import { PrismaClient } from '@prisma/client';
-import { log, LogLevel, padText } from '../../utils/Logger.ts';
-
-require('dotenv').config();
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { checkSize, resolveImageUrls } from '../../ImagePipeline.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { Caller, identify, canView } from '../Authentication.ts';
+import { loadImageMetadata } from '../../Images.ts';
 
 const app: Express = express();
-const prisma = new PrismaClient();
+const prisma = trackQueryErrors(new PrismaClient());
 
 app.use(express.json());
 
@@ -17,24 +20,41 @@ app.use(express.json());
  * @route GET /api/image/retrieve/profile/:id/
  * @desc Retrieve the image hash for a user profile.
  * @param {number} id - The user ID.
- * @returns {string} imageHash - The hash of the requested image.
+ * @param {string} [size] - The size variant to return as the image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {string} imageUrl - The URL of the requested image.
+ * @returns {string} format - The format the returned URLs point to.
+ * @returns {Object} variants - The URL of every size variant of the image.
+ * @returns {string} [expiresAt] - When the signed URLs of a private image stop working.
+ * @returns {Object} metadata - The dimensions, size, format, hash, placeholders and origin of the image.
  */
-app.get('/api/image/retrieve/profile/:id', async (req, res) => {
+app.get('/api/image/retrieve/profile/:id', identify, async (req, res) => {
     let profile;
     let key;
+    let variants;
+    let visibility;
 
     try {
         log("| Received API request to retrieve a profile image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.params.id;
+        const input = validateRequest(schemas.retrieveProfile, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id } = input.params;
+        const { size, format } = input.query;
 
-        log(padText("Image type:", 16) + "profile");
-        log(padText("ID:", 16) + id);
+        addLogContext({ imageType: "profile", entityId: id });
+
+        if (!checkSize(size, res)) {
+            return;
+        }
 
         log("Retrieving profile image...");
         profile = await prisma.profile.findUnique({
             where: {
-                userId: parseInt(id)
+                userId: id
             }
         }).catch(error => {
             log("Database error while fetching profile: " + error.message, LogLevel.ERROR);
@@ -42,8 +62,16 @@ app.get('/api/image/retrieve/profile/:id', async (req, res) => {
             return;
         });
 
+        if (profile && !canView(res.locals.caller, { type: 'profile', id }, profile.visibility)) {
+            res.status(404).json({ message: "Profile image not found." });
+            log("Profile image is private and the caller does not own it. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
         if (profile) {
             key = profile.image;
+            variants = profile.variants;
+            visibility = profile.visibility;
             log(`Image Key: ${key}`);
             log("Profile image retrieved.");
         } else {
@@ -52,9 +80,12 @@ app.get('/api/image/retrieve/profile/:id', async (req, res) => {
             return;
         }
 
-        const url = "https://" + process.env.S3_BUCKET + ".s3.us-west-2.amazonaws.com/" + key;
+        const urls = await resolveImageUrls(key, variants, { size, accept: req.headers.accept, format, visibility });
+        const url = urls.imageUrl;
+        const [metadata] = await loadImageMetadata([profile]);
         log("Sending image URL to client.");
-        res.status(200).json({ imageUrl: url });
+        res.vary('Accept');
+        res.status(200).json({ imageUrl: url, format: urls.format, variants: urls.variants, visibility, expiresAt: urls.expiresAt, metadata });
         log("Image URL: " + url);
     } catch (error) {
         if (error instanceof Error) {
@@ -72,27 +103,44 @@ app.get('/api/image/retrieve/profile/:id', async (req, res) => {
  * @desc Retrieve the image hash for a listing.
  * @param {number} id - The listing ID.
  * @param {number} index - The order of the image for listing images.
- * @returns {string} imageHash - The hash of the requested image.
+ * @param {string} [size] - The size variant to return as the image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {string} imageUrl - The URL of the requested image.
+ * @returns {string} format - The format the returned URLs point to.
+ * @returns {Object} variants - The URL of every size variant of the image.
+ * @returns {string} [expiresAt] - When the signed URLs of a private image stop working.
+ * @returns {Object} metadata - The dimensions, size, format, hash, placeholders and origin of the image.
  */
-app.get('/api/image/retrieve/listing/:id/:index', async (req, res) => {
+app.get('/api/image/retrieve/listing/:id/:index', identify, async (req, res) => {
     let listing;
     let key;
+    let variants;
+    let visibility;
 
     try {
         log("| Received API request to retrieve a listing image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.params.id;
-        const index = req.params.index;
+        const input = validateRequest(schemas.retrieveListing, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { id, index } = input.params;
+        const { size, format } = input.query;
+
+        addLogContext({ imageType: "listing", entityId: id, index });
 
-        log(padText("Image type:", 16) + "listing");
-        log(padText("ID:", 16) + id);
-        log(padText("Index:", 16) + index);
+        if (!checkSize(size, res)) {
+            return;
+        }
 
         log("Retrieving listing image...");
-        listing = await prisma.listing.findFirst({
+        listing = await prisma.listing.findUnique({
             where: {
-                listingId: parseInt(id),
-                index: parseInt(index)
+                listingId_index: {
+                    listingId: id,
+                    index
+                }
             }
         }).catch(error => {
             log("Database error while fetching listing: " + error.message, LogLevel.ERROR);
@@ -100,8 +148,16 @@ app.get('/api/image/retrieve/listing/:id/:index', async (req, res) => {
             return;
         });
 
+        if (listing && !canView(res.locals.caller, { type: 'listing', id }, listing.visibility)) {
+            res.status(404).json({ message: "Listing image not found." });
+            log("Listing image is private and the caller does not own it. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
         if (listing) {
             key = listing.image;
+            variants = listing.variants;
+            visibility = listing.visibility;
             log(`Image Key: ${key}`);
             log("Listing image retrieved.");
         } else {
@@ -110,9 +166,12 @@ app.get('/api/image/retrieve/listing/:id/:index', async (req, res) => {
             return;
         }
 
-        const url = "https://" + process.env.S3_BUCKET + ".s3.us-west-2.amazonaws.com/" + key;
+        const urls = await resolveImageUrls(key, variants, { size, accept: req.headers.accept, format, visibility });
+        const url = urls.imageUrl;
+        const [metadata] = await loadImageMetadata([listing]);
         log("Sending image URL to client.");
-        res.status(200).json({ imageUrl: url });
+        res.vary('Accept');
+        res.status(200).json({ imageUrl: url, format: urls.format, variants: urls.variants, visibility, expiresAt: urls.expiresAt, metadata });
         log("Image URL: " + url);
     } catch (error) {
         if (error instanceof Error) {
@@ -125,4 +184,107 @@ app.get('/api/image/retrieve/listing/:id/:index', async (req, res) => {
     }
 });
 
+/**
+ * @route POST /api/image/retrieve/bulk
+ * @desc Retrieve the images of many listings and profiles at once, e.g. for a page of search results.
+ * @param {number[]} [listingIds] - The listing IDs. Each listing is represented by its first gallery image.
+ * @param {number[]} [userIds] - The user IDs.
+ * @param {string} [size] - The size variant to return as each image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {Object} listings - The index, URLs and metadata of each listing's image by listing ID, or null if it has none the caller may see.
+ * @returns {Object} profiles - The URLs and metadata of each profile image by user ID, or null if it has none the caller may see.
+ */
+app.post('/api/image/retrieve/bulk', identify, async (req, res) => {
+    try {
+        log("| Received API request to retrieve images in bulk. (" + req.socket.remoteAddress + ")");
+        log("Extracting information from the request...");
+        const input = validateRequest(schemas.retrieveBulk, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { listingIds, userIds, size, format } = input.body;
+
+        if (!listingIds?.length && !userIds?.length) {
+            res.status(400).json({ message: "Expected listingIds, userIds or both.", code: "INVALID_REQUEST" });
+            log("No IDs to look up. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        addLogContext({ listings: listingIds?.length ?? 0, profiles: userIds?.length ?? 0 });
+
+        if (!checkSize(size, res)) {
+            return;
+        }
+
+        const caller: Caller | undefined = res.locals.caller;
+        const urlOptions = { size, accept: req.headers.accept, format };
+        const response: { listings?: Record<number, object | null>, profiles?: Record<number, object | null> } = {};
+
+        if (listingIds?.length) {
+            log("Retrieving listing images...");
+            // The first image of each gallery the caller may see, ordered by index so gaps left by deletions and private
+            // images of other owners are skipped.
+            const gallery = await prisma.listing.findMany({
+                where: {
+                    listingId: { in: listingIds }
+                },
+                orderBy: [{ listingId: 'asc' }, { index: 'asc' }],
+            });
+            const found = new Map<number, typeof gallery[number]>();
+            for (const listing of gallery) {
+                if (!found.has(listing.listingId) && canView(caller, { type: 'listing', id: listing.listingId }, listing.visibility)) {
+                    found.set(listing.listingId, listing);
+                }
+            }
+            const listings = [...found.values()];
+            const metadata = new Map((await loadImageMetadata(listings)).map((entry, position) => [listings[position].listingId, entry]));
+
+            response.listings = {};
+            for (const id of listingIds) {
+                const listing = found.get(id);
+                response.listings[id] = listing ? {
+                    index: listing.index,
+                    visibility: listing.visibility,
+                    ...await resolveImageUrls(listing.image, listing.variants, { ...urlOptions, visibility: listing.visibility }),
+                    metadata: metadata.get(id),
+                } : null;
+            }
+        }
+
+        if (userIds?.length) {
+            log("Retrieving profile images...");
+            const profiles = (await prisma.profile.findMany({
+                where: {
+                    userId: { in: userIds }
+                }
+            })).filter(profile => canView(caller, { type: 'profile', id: profile.userId }, profile.visibility));
+            const found = new Map(profiles.map(profile => [profile.userId, profile]));
+            const metadata = new Map((await loadImageMetadata(profiles)).map((entry, position) => [profiles[position].userId, entry]));
+
+            response.profiles = {};
+            for (const id of userIds) {
+                const profile = found.get(id);
+                response.profiles[id] = profile ? {
+                    visibility: profile.visibility,
+                    ...await resolveImageUrls(profile.image, profile.variants, { ...urlOptions, visibility: profile.visibility }),
+                    metadata: metadata.get(id),
+                } : null;
+            }
+        }
+
+        log(`Sending image URLs of ${listingIds?.length ?? 0} listings and ${userIds?.length ?? 0} profiles to client.`);
+        res.vary('Accept');
+        res.status(200).json(response);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
 module.exports = app;
@@ -0,0 +1,44 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { log, LogLevel } from '../../utils/Logger.ts';
+import { storage, FILE_ROUTE } from '../../storage/Storage.ts';
+import { verifySignedQuery } from '../../storage/UrlSigning.ts';
+
+const app: Express = express();
+
+/**
+ * @route GET /files/:key
+ * @desc Serve a stored file when the storage backend has no HTTP endpoint of its own.
+ * @param {string} key - The object key, e.g. "assets/img/profile/a/ab/abc.jpeg".
+ * @param {number} [expires] - The expiry time of a signed URL. Required for private files.
+ * @param {string} [signature] - The signature of a signed URL. Required for private files.
+ */
+app.get(`${FILE_ROUTE}/*`, async (req: Request, res: Response) => {
+    try {
+        const key = req.params[0];
+        const object = await storage.get(key);
+
+        // Private files are reported as missing rather than forbidden, so their keys cannot be probed.
+        if (!object || (object.visibility === 'private' && !verifySignedQuery(key, req.query.expires, req.query.signature))) {
+            res.status(404).json({ message: "File not found." });
+            return;
+        }
+
+        res.setHeader('Content-Type', object.contentType);
+        res.setHeader('Cache-Control', object.visibility === 'private' ? 'private, no-store' : 'public, max-age=31536000, immutable');
+        res.status(200).send(object.buffer);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
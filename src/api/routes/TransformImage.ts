@@ -0,0 +1,100 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { log, LogLevel } from '../../utils/Logger.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { verifyTransform } from '../../storage/UrlSigning.ts';
+import { Transform, getPreset, canonicalTransform, selectTransformFormat, transformEtag, isServable, transformImage } from '../../Transforms.ts';
+import { config } from '../../Config.ts';
+
+const app: Express = express();
+
+// How long clients and CDNs may reuse a transformed image, in seconds. Kept finite because images can be made private.
+const maxAge: number = config.transforms.maxAge;
+
+/**
+ * @route GET /img/:key
+ * @desc Serve a public image resized and re-encoded on the fly, for a CDN to cache.
+ * @param {string} key - The original image key, e.g. "assets/img/listing/a/ab/abc.jpeg".
+ * @param {string} [preset] - A configured preset. Cannot be combined with w, h, fit and q.
+ * @param {number} [w] - The width to resize to.
+ * @param {number} [h] - The height to resize to.
+ * @param {string} [fit] - How the image fits the width and height, e.g. "cover". Defaults to cover.
+ * @param {number} [q] - The encoder quality, between 1 and 100.
+ * @param {string} [format] - The format to encode to, overriding the Accept header. Defaults to negotiation.
+ * @param {string} [sig] - The signature of w, h, fit and q. Required unless a preset is used.
+ */
+app.get('/img/*', async (req: Request, res: Response) => {
+    try {
+        const key = req.params[0];
+        const input = validateRequest(schemas.transformImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { w, h, fit, q, format, preset, sig } = input.query;
+        let transform: Transform = { width: w, height: h, fit, quality: q };
+
+        if (preset) {
+            const presetTransform = getPreset(preset);
+
+            if (canonicalTransform(transform) !== "" || !presetTransform) {
+                res.status(400).json({ message: "Unknown preset, or a preset combined with other parameters.", code: "INVALID_PRESET" });
+                log("Invalid preset. Aborting.", LogLevel.WARNING, { preset });
+                return;
+            }
+
+            transform = presetTransform;
+        } else if (canonicalTransform(transform) !== "" && !verifyTransform(key, canonicalTransform(transform), sig)) {
+            // Arbitrary parameters would let anyone fill the cache and keep sharp busy, so they have to be signed.
+            res.status(403).json({ message: "Transformations other than presets have to be signed.", code: "INVALID_SIGNATURE" });
+            log("Unsigned or invalid transformation. Aborting.", LogLevel.WARNING, { key });
+            return;
+        }
+
+        if (!await isServable(key)) {
+            res.status(404).json({ message: "Image not found." });
+            return;
+        }
+
+        const selectedFormat = selectTransformFormat(key, req.headers.accept, format);
+
+        res.setHeader('ETag', transformEtag(key, transform, selectedFormat));
+        res.setHeader('Cache-Control', `public, max-age=${maxAge}`);
+        if (!format) {
+            res.vary('Accept');
+        }
+
+        // The ETag does not depend on the output, so revalidations are answered without transforming anything.
+        if (req.fresh) {
+            res.status(304).end();
+            return;
+        }
+
+        const image = await transformImage(key, transform, selectedFormat);
+
+        if (!image) {
+            res.removeHeader('ETag');
+            res.removeHeader('Cache-Control');
+            res.status(404).json({ message: "Image not found." });
+            return;
+        }
+
+        res.setHeader('Content-Type', image.contentType);
+        res.status(200).send(image.buffer);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.removeHeader('ETag');
+            res.removeHeader('Cache-Control');
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -1,36 +1,24 @@
 // Copyright (c) BrowseBox. Licensed under the MIT Licence.
 // See the LICENCE file in the repository root for full licence text.
 
-import sharp from 'sharp';
-import crypto from 'crypto';
-
 import express, { Express, Request, Response } from 'express';
-import multer, { Options } from 'multer';
 
 import { PrismaClient } from '@prisma/client';
-import { uploadFile, deleteFile } from '../../S3.ts';
-import { log, LogLevel, padText } from '../../utils/Logger.ts';
-import { generateImageKey } from '../../utils/KeyGeneration.ts';
-import { requestValidation, RequestType } from '../RequestValidation.ts';
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireOwnership, bodyEntity } from '../Authentication.ts';
+import { receiveImage, checkUpload, describeUpload } from '../UploadValidation.ts';
+import { resolveImageUrls } from '../../ImagePipeline.ts';
+import { retainImage } from '../../Blobs.ts';
+import { commitImageWrite } from '../../PendingOperations.ts';
+import { ImageChangedError, replacementFollowUps, replaceImage } from '../../Images.ts';
+import { jobUrl, enqueueImageJob } from '../../Jobs.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
+import { Visibility } from '../../storage/StorageBackend.ts';
 
 const app: Express = express();
-const prisma = new PrismaClient();
-
-// Multer configuration details.
-const upload = multer({
-    storage: multer.memoryStorage(),
-    // Add 10MB file size limit on requests.
-    limits: {
-        fileSize: 10 * 1024 * 1024
-    },
-    fileFilter: (req: Request, file: Express.Multer.File, cb: (error: Error | null, acceptFile: boolean) => void) => {
-        if (file.mimetype.startsWith('image/')) {
-            cb(null, true);
-        } else {
-            cb(new Error('Invalid file type'), false);
-        }
-    },
-} as Options);
+const prisma = trackQueryErrors(new PrismaClient());
 
 app.use(express.json());
 
@@ -39,91 +27,87 @@ app.use(express.json());
  * @desc Update an existing image for a user profile.
  * @param {number} id - The user ID.
  * @param {File} image - The updated image file.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to the visibility of the current image.
+ * @param {boolean} [async] - Queue the image and respond with 202 and a job ID instead of waiting for it. Defaults to false.
+ * @param {string} [callbackUrl] - A URL to POST the outcome of a queued image to.
  */
-app.post('/api/image/update/profile', upload.single('image'), async (req: Request, res: Response) => {
+app.post('/api/image/update/profile', authenticate, receiveImage(), requireOwnership(bodyEntity('profile')), async (req: Request, res: Response) => {
     try {
         log("| Received API request to update a profile image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.body.id;
-        const file = req.file;
-
-        // For some reason typescript intellisense doesn't recognise that we're already checking for validity via the requestValidation function.
-        // This is just a workaround to make intellisense happy.
-        if (!file) {
-            res.status(400).json({ message: "Missing image file." });
-            log("Missing image file. Aborting.", LogLevel.WARNING);
+        const input = validateRequest(schemas.updateProfile, req, res);
+        if (!input) {
             return;
         }
 
-        if (!requestValidation(RequestType.UPDATE_PROFILE, req)) {
-            res.status(400).json({ message: "Missing or invalid required parameters." });
-            log(padText("ID:", 16) + id);
-            log(padText("File:", 16) + file.originalname);
-            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING);
-            return;
-        } else {
-            log("Request validated. All required parameters present.");
-        }
+        const { id } = input.body;
+        const file = input.file;
 
-        log(padText("ID:", 16) + id);
-        log(padText("File:", 16) + file.originalname);
-
-        log("Generating image hash and image key...");
-        const imageHash = crypto.createHash('sha256').update(file.buffer).digest('hex');
-        log(`Image hash: ${imageHash}`);
-
-        const key = generateImageKey("profile", imageHash, file.mimetype);
-        log(`Image key: ${key}`);
-
-        const fileBuffer = await sharp(file.buffer).toBuffer();
-        log("File buffer created.");
+        addLogContext({ entityId: id, file: file.originalname });
 
         log("Updating profile image...");
         log("Fetching old image key from database...");
-
         const oldKey = await prisma.profile.findUnique({
             where: {
-                userId: parseInt(id)
+                userId: id
             }
-        }).catch(error => {
-            log("Database error while fetching old image key: " + error.message, LogLevel.ERROR);
-            res.status(500).json({ message: "Database error while fetching old image key." });
-            return;
         });
 
-        if (oldKey) {
-            log("Updating image key in database...");
-            await prisma.profile.update({
-                where: {
-                    userId: parseInt(id),
-                },
-                data: {
-                    image: key,
-                }
-            }).catch(error => {
-                log("Database error while updating image key: " + error.message, LogLevel.ERROR);
-                res.status(500).json({ message: "Database error while updating image key." });
-                return;
-            });
+        if (!oldKey) {
+            res.status(500).json({ message: "Failed to fetch old key from database." });
+            log("Failed to fetch old key from database.", LogLevel.ERROR);
+            return;
+        }
 
-            log("Uploading image to S3...");
-            await uploadFile(fileBuffer, key, file.mimetype);
+        const visibility: Visibility = input.body.visibility ?? oldKey.visibility as Visibility;
 
-            log("Deleting old image from S3...");
-            await deleteFile(oldKey.image);
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
 
-            log("Profile image updated.");
-        } else {
-            res.status(500).json({ message: "Failed to fetch old key from database." });
-            log("Failed to fetch old key from database.", LogLevel.ERROR);
+        // Queued images are processed by the job workers, so the client does not wait for sharp and storage.
+        if (input.body.async) {
+            log("Queueing image for processing...");
+            const queued = await enqueueImageJob({ action: 'update', slot: { type: 'profile', id }, buffer: file.buffer, contentType: detected.mimetype, upload: describeUpload(res, file), visibility: input.body.visibility, callbackUrl: input.body.callbackUrl });
+            res.status(202).location(jobUrl(queued.id)).json({ message: "Image queued for processing.", jobId: queued.id, status: queued.status });
+            log("Image queued as job " + queued.id);
             return;
         }
 
+        log("Storing image and generating size variants...");
+        const image = await retainImage("profile", file.buffer, detected.mimetype, visibility);
+        const key = image.key;
+        log(`Image key: ${key}`);
+
+        log("Updating image key in database...");
+        try {
+            await commitImageWrite(image, async (tx) => {
+                const updated = await replaceImage(tx, { type: 'profile', id }, oldKey, {
+                    image: key,
+                    variants: image.variants,
+                    visibility,
+                    ...describeUpload(res, file),
+                });
+                await recordImageEvent(tx, 'image.updated', { type: 'profile', id }, { old: oldKey, new: updated });
+            }, () => replacementFollowUps(oldKey, image, visibility));
+        } catch (error) {
+            if (error instanceof ImageChangedError) {
+                res.status(409).json({ message: error.message, code: "IMAGE_CHANGED" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
         log("Profile image updated.");
 
-        const url = "https://" + process.env.S3_BUCKET + ".s3.us-west-2.amazonaws.com/" + key;
+        const urls = await resolveImageUrls(key, image.variants, { accept: req.headers.accept, visibility });
+        const url = urls.imageUrl;
         log("Sending image URL to client.");
-        res.status(200).json({ message: "Profile image updated.", imageUrl: url });
+        res.status(200).json({ message: "Profile image updated.", imageUrl: url, variants: urls.variants, expiresAt: urls.expiresAt });
         log("Image URL: " + url);
     } catch (error) {
         if (error instanceof Error) {
@@ -142,74 +126,89 @@ app.post('/api/image/update/profile', upload.single('image'), async (req: Reques
  * @param {number} id - The listing ID.
  * @param {number} index - The order of the image for listing images.
  * @param {File} image - The updated image file.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to the visibility of the current image.
+ * @param {boolean} [async] - Queue the image and respond with 202 and a job ID instead of waiting for it. Defaults to false.
+ * @param {string} [callbackUrl] - A URL to POST the outcome of a queued image to.
  */
-app.post('/api/image/update/listing', upload.single('image'), async (req: Request, res: Response) => {
+app.post('/api/image/update/listing', authenticate, receiveImage(), requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
     try {
         log("| Received API request to update a listing image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.body.id;
-        const index = req.body.index;
-        const file = req.file;
-
-        // For some reason typescript intellisense doesn't recognise that we're already checking for validity via the requestValidation function.
-        // This is just a workaround to make intellisense happy.
-        if (!file) {
-            res.status(400).json({ message: "Missing image file." });
-            log("Missing image file. Aborting.", LogLevel.WARNING);
+        const input = validateRequest(schemas.updateListing, req, res);
+        if (!input) {
             return;
         }
 
-        if (!requestValidation(RequestType.UPDATE_LISTING, req)) {
-            res.status(400).json({ message: "Missing or invalid required parameters." });
-            log(padText("ID:", 16) + id);
-            log(padText("File:", 16) + file.originalname);
-            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING);
+        const { id, index } = input.body;
+        const file = input.file;
+
+        addLogContext({ entityId: id, index, file: file.originalname });
+
+        log("Updating listing image...");
+        log("Fetching old image key from database...");
+        const where = {
+            listingId_index: {
+                listingId: id,
+                index
+            }
+        };
+
+        const oldListing = await prisma.listing.findUnique({ where });
+
+        if (!oldListing) {
+            res.status(500).json({ message: "Failed to fetch old key from database." });
+            log("Failed to fetch old key from database.", LogLevel.ERROR);
             return;
-        } else {
-            log("Request validated. All required parameters present.");
         }
 
-        log(padText("ID:", 16) + id);
-        log(padText("Index:", 16) + index);
-        log(padText("File:", 16) + file.originalname);
+        const visibility: Visibility = input.body.visibility ?? oldListing.visibility as Visibility;
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
 
-        log("Generating image hash and image key...");
-        const imageHash = crypto.createHash('sha256').update(file.buffer).digest('hex');
-        log(`Image hash: ${imageHash}`);
+        if (input.body.async) {
+            log("Queueing image for processing...");
+            const queued = await enqueueImageJob({ action: 'update', slot: { type: 'listing', id, index }, buffer: file.buffer, contentType: detected.mimetype, upload: describeUpload(res, file), visibility: input.body.visibility, callbackUrl: input.body.callbackUrl });
+            res.status(202).location(jobUrl(queued.id)).json({ message: "Image queued for processing.", jobId: queued.id, status: queued.status });
+            log("Image queued as job " + queued.id);
+            return;
+        }
 
-        const key = generateImageKey("listing", imageHash, file.mimetype);
+        log("Storing image and generating size variants...");
+        const image = await retainImage("listing", file.buffer, detected.mimetype, visibility);
+        const key = image.key;
         log(`Image key: ${key}`);
 
-        const fileBuffer = await sharp(file.buffer).toBuffer();
-        log("File buffer created.");
-
-        // For listings, we are unable to delete the old image from S3 due to Prisma requiring a single filter for the where clause.
-        // This issue is relatively minor until our S3 bucket starts to fill up, so we will leave it as is for now.
-        log("Updating listing image...");
         log("Updating listing in database...");
-
-        await prisma.listing.update({
-            where: {
-                listingId: parseInt(id)
-            },
-            data: {
-                index: parseInt(index),
-                image: key,
+        try {
+            await commitImageWrite(image, async (tx) => {
+                const updated = await replaceImage(tx, { type: 'listing', id, index }, oldListing, {
+                    image: key,
+                    variants: image.variants,
+                    visibility,
+                    ...describeUpload(res, file),
+                });
+                await recordImageEvent(tx, 'image.updated', { type: 'listing', id, index }, { old: oldListing, new: updated });
+            }, () => replacementFollowUps(oldListing, image, visibility));
+        } catch (error) {
+            if (error instanceof ImageChangedError) {
+                res.status(409).json({ message: error.message, code: "IMAGE_CHANGED" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
             }
-        }).catch(error => {
-            log("Database error while updating listing: " + error.message, LogLevel.ERROR);
-            res.status(500).json({ message: "Database error while updating listing." });
-            return;
-        });
 
-        log("Uploading image to S3...");
-        await uploadFile(fileBuffer, key, file.mimetype);
+            throw error;
+        }
 
         log("Listing image updated.");
 
-        const url = "https://" + process.env.S3_BUCKET + ".s3.us-west-2.amazonaws.com/" + key;
+        const urls = await resolveImageUrls(key, image.variants, { accept: req.headers.accept, visibility });
+        const url = urls.imageUrl;
         log("Sending image URL to client.");
-        res.status(200).json({ message: "Listing image updated.", imageUrl: url });
+        res.status(200).json({ message: "Listing image updated.", imageUrl: url, variants: urls.variants, expiresAt: urls.expiresAt });
         log("Image URL: " + url);
     } catch (error) {
         if (error instanceof Error) {
@@ -1,38 +1,23 @@
 // Copyright (c) BrowseBox. Licensed under the MIT Licence.
 // See the LICENCE file in the repository root for full licence text.
 
-import sharp from 'sharp';
-import crypto from 'crypto';
-
 import express, { Express, Request, Response } from 'express';
-import multer, { Options } from 'multer';
 
 import { PrismaClient } from '@prisma/client';
-import { uploadFile } from '../../S3.ts';
-import { log, LogLevel, padText } from '../../utils/Logger.ts';
-import { generateImageKey } from '../../utils/KeyGeneration.ts';
-import { requestValidation, RequestType } from '../RequestValidation.ts';
-
-require('dotenv').config();
+import { log, LogLevel, addLogContext } from '../../utils/Logger.ts';
+import { trackQueryErrors } from '../../utils/Metrics.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireOwnership, bodyEntity } from '../Authentication.ts';
+import { receiveImage, checkUpload, describeUpload } from '../UploadValidation.ts';
+import { resolveImageUrls } from '../../ImagePipeline.ts';
+import { retainImage } from '../../Blobs.ts';
+import { commitImageWrite } from '../../PendingOperations.ts';
+import { MAX_GALLERY_SIZE } from '../../Gallery.ts';
+import { jobUrl, enqueueImageJob } from '../../Jobs.ts';
+import { recordImageEvent } from '../../Webhooks.ts';
 
 const app: Express = express();
-const prisma = new PrismaClient();
-
-// Multer configuration details.
-const upload = multer({
-    storage: multer.memoryStorage(),
-    // Add 10MB file size limit on requests.
-    limits: {
-        fileSize: 10 * 1024 * 1024
-    },
-    fileFilter: (req: Request, file: Express.Multer.File, cb: (error: Error | null, acceptFile: boolean) => void) => {
-        if (file.mimetype.startsWith('image/')) {
-            cb(null, true);
-        } else {
-            cb(new Error('Invalid file type'), false);
-        }
-    },
-} as Options);
+const prisma = trackQueryErrors(new PrismaClient());
 
 app.use(express.json());
 
@@ -41,83 +26,78 @@ app.use(express.json());
  * @desc Upload an image for a user profile.
  * @param {number} id - The user ID for profiles or listing ID for listings.
  * @param {File} image - The image file to be uploaded.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to public.
+ * @param {boolean} [async] - Queue the image and respond with 202 and a job ID instead of waiting for it. Defaults to false.
+ * @param {string} [callbackUrl] - A URL to POST the outcome of a queued image to.
  */
-app.post('/api/image/upload/profile', upload.single('image'), async (req: Request, res: Response) => {
+app.post('/api/image/upload/profile', authenticate, receiveImage(), requireOwnership(bodyEntity('profile')), async (req: Request, res: Response) => {
     try {
         log("| Received API request to upload a profile image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-        const id = req.body.id;
-        const file = req.file;
-
-        // For some reason typescript intellisense doesn't recognise that we're already checking for validity via the requestValidation function.
-        // This is just a workaround to make intellisense happy.
-        if (!file) {
-            res.status(400).json({ message: "Missing image file." });
-            log("Missing image file. Aborting.", LogLevel.WARNING);
-            return;
-        }
-
-        if (!requestValidation(RequestType.UPLOAD_PROFILE, req)) {
-            res.status(400).json({ message: "Missing or invalid required parameters." });
-            log(padText("ID:", 16) + id);
-            log(padText("File:", 16) + file.originalname);
-            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING);
+        const input = validateRequest(schemas.uploadProfile, req, res);
+        if (!input) {
             return;
-        } else {
-            log("Request validated. All required parameters present.");
         }
 
-        log(padText("ID:", 16) + id);
-        log(padText("File:", 16) + file.originalname);
+        const { id, visibility } = input.body;
+        const file = input.file;
 
-        log("Generating image hash and image key...");
-        const imageHash = crypto.createHash('sha256').update(file.buffer).digest('hex');
-        log(`Image hash: ${imageHash}`);
-
-        const key = generateImageKey("profile", imageHash, file.mimetype);
-        log(`Image key: ${key}`);
-
-        const fileBuffer = await sharp(file.buffer).toBuffer();
-        log("File buffer created.");
+        addLogContext({ entityId: id, file: file.originalname });
 
         log("Creating profile request to S3...");
         log("Checking if profile already exists...");
         const profileCheck = await prisma.profile.findUnique({
             where: {
-                userId: parseInt(id)
+                userId: id
             }
-        }).catch(error => {
-            log("Database error while checking profile: " + error.message, LogLevel.ERROR);
-            res.status(500).json({ message: "Database error while checking profile." });
-            return;
         });
 
         if (profileCheck !== null) {
             res.status(400).json({ message: "Profile already exists." });
             log("Profile already exists. Aborting.", LogLevel.WARNING);
             return;
-        } else {
-            log("Creating profile in database.");
-            await prisma.profile.create({
+        }
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
+
+        // Queued images are processed by the job workers, so the client does not wait for sharp and storage.
+        if (input.body.async) {
+            log("Queueing image for processing...");
+            const queued = await enqueueImageJob({ action: 'upload', slot: { type: 'profile', id }, buffer: file.buffer, contentType: detected.mimetype, upload: describeUpload(res, file), visibility: visibility, callbackUrl: input.body.callbackUrl });
+            res.status(202).location(jobUrl(queued.id)).json({ message: "Image queued for processing.", jobId: queued.id, status: queued.status });
+            log("Image queued as job " + queued.id);
+            return;
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage("profile", file.buffer, detected.mimetype, visibility);
+        const key = image.key;
+        log(`Image key: ${key}`);
+
+        log("Creating profile in database.");
+        await commitImageWrite(image, async (tx) => {
+            const created = await tx.profile.create({
                 data: {
-                    userId: parseInt(id),
+                    userId: id,
                     image: key,
+                    variants: image.variants,
+                    visibility,
+                    ...describeUpload(res, file),
                 }
-            }).catch(error => {
-                log("Database error while creating profile: " + error.message, LogLevel.ERROR);
-                res.status(500).json({ message: "Database error while creating profile." });
-                return;
             });
+            await recordImageEvent(tx, 'image.created', { type: 'profile', id }, { new: created });
+        });
 
-            log("Uploading image to S3...", LogLevel.VERBOSE);
-            await uploadFile(fileBuffer, key, file.mimetype);
-
-            log("Image upload complete.");
-        }
+        log("Image upload complete.");
 
-        const url = "https://" + process.env.S3_BUCKET + ".s3.us-west-2.amazonaws.com/" + key;
+        const urls = await resolveImageUrls(key, image.variants, { accept: req.headers.accept, visibility });
+        const url = urls.imageUrl;
         log("Sending image URL to client.");
-        res.status(200).json({ message: "Image upload complete.", imageUrl: url });
+        res.status(200).json({ message: "Image upload complete.", imageUrl: url, variants: urls.variants, expiresAt: urls.expiresAt });
         log("Image URL: " + url);
     } catch (error) {
         if (error instanceof Error) {
@@ -136,88 +116,87 @@ app.post('/api/image/upload/profile', upload.single('image'), async (req: Reques
  * @param {number} id - The listing ID.
  * @param {number} index - The order of the image for listing images.
  * @param {File} image - The image file to be uploaded.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to public.
+ * @param {boolean} [async] - Queue the image and respond with 202 and a job ID instead of waiting for it. Defaults to false.
+ * @param {string} [callbackUrl] - A URL to POST the outcome of a queued image to.
  */
-app.post('/api/image/upload/listing', upload.single('image'), async (req: Request, res: Response) => {
+app.post('/api/image/upload/listing', authenticate, receiveImage(), requireOwnership(bodyEntity('listing')), async (req: Request, res: Response) => {
     try {
         log("| Received API request to upload a listing image. (" + req.socket.remoteAddress + ")");
         log("Extracting information from the request...");
-
-        const id = req.body.id;
-        const index = req.body.index;
-        const file = req.file;
-
-        // For some reason typescript intellisense doesn't recognise that we're already checking for validity via the requestValidation function.
-        // This is just a workaround to make intellisense happy.
-        if (!file) {
-            res.status(400).json({ message: "Missing image file." });
-            log("Missing image file. Aborting.", LogLevel.WARNING);
-            return;
-        }
-
-        if (!requestValidation(RequestType.UPLOAD_LISTING, req)) {
-            res.status(400).json({ message: "Missing or invalid required parameters." });
-            log(padText("ID:", 16) + id);
-            log(padText("Index:", 16) + index);
-            log(padText("File:", 16) + file.originalname);
-            log("Missing or invalid required parameters. Aborting.", LogLevel.WARNING);
+        const input = validateRequest(schemas.uploadListing, req, res);
+        if (!input) {
             return;
-        } else {
-            log("Request validated. All required parameters present.");
         }
 
-        log(padText("ID:", 16) + id);
-        log(padText("Index:", 16) + index);
-        log(padText("File:", 16) + file.originalname);
-
-        log("Generating image hash and image key...");
-        const imageHash = crypto.createHash('sha256').update(file.buffer).digest('hex');
-        log(`Image hash: ${imageHash}`);
+        const { id, index, visibility } = input.body;
+        const file = input.file;
 
-        const key = generateImageKey("listing", imageHash, file.mimetype);
-        log(`Image key: ${key}`);
+        addLogContext({ entityId: id, index, file: file.originalname });
 
-        const fileBuffer = await sharp(file.buffer).toBuffer();
-        log("File buffer created.");
+        if (index >= MAX_GALLERY_SIZE) {
+            res.status(400).json({ message: `Listing galleries are limited to ${MAX_GALLERY_SIZE} images.` });
+            log("Index is outside of the listing gallery. Aborting.", LogLevel.WARNING);
+            return;
+        }
 
         log("Creating listing request to S3.");
-        log("Checking if listing already exists...");
+        log("Checking if listing image already exists...");
         const listingCheck = await prisma.listing.findUnique({
             where: {
-                listingId: parseInt(id)
+                listingId_index: {
+                    listingId: id,
+                    index
+                }
             }
-        }).catch(error => {
-            log("Database error while checking listing: " + error.message, LogLevel.ERROR);
-            res.status(500).json({ message: "Database error while checking listing." });
-            return;
         });
 
         if (listingCheck != null) {
-            res.status(400).json({ message: "Listing already exists." });
-            log("Listing already exists. Aborting.", LogLevel.WARNING);
+            res.status(400).json({ message: "Listing image already exists at this index." });
+            log("Listing image already exists at this index. Aborting.", LogLevel.WARNING);
             return;
-        } else {
-            log("Creating listing in database.");
-            await prisma.listing.create({
+        }
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
+
+        if (input.body.async) {
+            log("Queueing image for processing...");
+            const queued = await enqueueImageJob({ action: 'upload', slot: { type: 'listing', id, index }, buffer: file.buffer, contentType: detected.mimetype, upload: describeUpload(res, file), visibility: visibility, callbackUrl: input.body.callbackUrl });
+            res.status(202).location(jobUrl(queued.id)).json({ message: "Image queued for processing.", jobId: queued.id, status: queued.status });
+            log("Image queued as job " + queued.id);
+            return;
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage("listing", file.buffer, detected.mimetype, visibility);
+        const key = image.key;
+        log(`Image key: ${key}`);
+
+        log("Creating listing in database.");
+        await commitImageWrite(image, async (tx) => {
+            const created = await tx.listing.create({
                 data: {
-                    listingId: parseInt(id),
-                    index: parseInt(index),
+                    listingId: id,
+                    index: index,
                     image: key,
+                    variants: image.variants,
+                    visibility,
+                    ...describeUpload(res, file),
                 }
-            }).catch(error => {
-                log("Database error while creating profile: " + error.message, LogLevel.ERROR);
-                res.status(500).json({ message: "Database error while creating profile." });
-                return;
             });
+            await recordImageEvent(tx, 'image.created', { type: 'listing', id, index }, { new: created });
+        });
 
-            log("Uploading image to S3...");
-            await uploadFile(fileBuffer, key, file.mimetype);
-
-            log("Image upload complete.");
-        }
+        log("Image upload complete.");
 
-        const url = "https://" + process.env.S3_BUCKET + ".s3.us-west-2.amazonaws.com/" + key;
+        const urls = await resolveImageUrls(key, image.variants, { accept: req.headers.accept, visibility });
+        const url = urls.imageUrl;
         log("Sending image URL to client.");
-        res.status(200).json({ message: "Image upload complete.", imageUrl: url });
+        res.status(200).json({ message: "Image upload complete.", imageUrl: url, variants: urls.variants, expiresAt: urls.expiresAt });
         log("Image URL: " + url);
     } catch (error) {
         if (error instanceof Error) {
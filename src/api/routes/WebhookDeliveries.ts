@@ -0,0 +1,115 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { log, LogLevel } from '../../utils/Logger.ts';
+import { validateRequest, schemas } from '../RequestValidation.ts';
+import { authenticate, requireAdmin } from '../Authentication.ts';
+import { findSubscription, findDelivery, listDeliveries, replayDelivery } from '../../Webhooks.ts';
+
+const app: Express = express();
+
+/**
+ * @route GET /api/webhooks/deliveries
+ * @desc List webhook deliveries, newest first. Admins only.
+ * @param {string} [status] - Only list deliveries that are "pending", "delivered" or "failed".
+ * @param {string} [eventId] - Only list deliveries of this event.
+ * @param {number} [limit] - The maximum number of deliveries, up to 100. Defaults to 50.
+ * @returns {Object[]} deliveries - The deliveries, with their payload and the outcome of the last attempt.
+ */
+app.get('/api/webhooks/deliveries', authenticate, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const input = validateRequest(schemas.listWebhookDeliveries, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { status, eventId, limit } = input.query;
+        const deliveries = await listDeliveries({ status, eventId }, limit);
+
+        res.status(200).json({ deliveries });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route GET /api/webhooks/deliveries/:id
+ * @desc Look up a single webhook delivery. Admins only.
+ * @param {number} id - The delivery ID, also sent in the X-BrowseBox-Delivery header.
+ */
+app.get('/api/webhooks/deliveries/:id', authenticate, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        const input = validateRequest(schemas.getWebhookDelivery, req, res);
+        if (!input) {
+            return;
+        }
+
+        const delivery = await findDelivery(input.params.id);
+
+        if (!delivery) {
+            res.status(404).json({ message: "Delivery not found." });
+            return;
+        }
+
+        res.status(200).json(delivery);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/webhooks/deliveries/:id/replay
+ * @desc Send a delivery again, e.g. after the subscriber recovered from an outage. Admins only.
+ * @param {number} id - The delivery ID.
+ * @returns {Object} delivery - The new delivery, which is sent on the next poll.
+ */
+app.post('/api/webhooks/deliveries/:id/replay', authenticate, requireAdmin, async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to replay a webhook delivery. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.replayWebhookDelivery, req, res);
+        if (!input) {
+            return;
+        }
+
+        const original = await findDelivery(input.params.id);
+
+        if (!original) {
+            res.status(404).json({ message: "Delivery not found." });
+            log("Delivery not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        if (!findSubscription(original.subscription)) {
+            res.status(409).json({ message: `The subscription ${original.subscription} is no longer configured.`, code: "UNKNOWN_SUBSCRIPTION" });
+            log("Subscription is no longer configured. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        const delivery = await replayDelivery(original);
+        res.status(202).json({ message: "Delivery queued for replay.", delivery });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -0,0 +1,330 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { Prisma } from '@prisma/client';
+import { log, LogLevel, addLogContext } from '../../../utils/Logger.ts';
+import { validateRequest, schemas } from '../../RequestValidation.ts';
+import { authenticate, identify, canView, requireOwnership, paramEntity } from '../../Authentication.ts';
+import { receiveImage, checkUpload, describeUpload } from '../../UploadValidation.ts';
+import { checkSize, resolveImageUrls } from '../../../ImagePipeline.ts';
+import { retainImage } from '../../../Blobs.ts';
+import { ImageSlot, SlotTakenError, ImageChangedError, findImage, writeImage, loadImageMetadata, deleteImage } from '../../../Images.ts';
+import { MAX_GALLERY_SIZE, getGallery, nextGalleryIndex } from '../../../Gallery.ts';
+import { Visibility } from '../../../storage/StorageBackend.ts';
+
+const app: Express = express();
+
+app.use(express.json());
+
+/**
+ * @route GET /api/v2/listings/:listingId/images
+ * @desc Retrieve every image of a listing in display order.
+ * @param {number} listingId - The listing ID.
+ * @param {string} [size] - The size variant to return as each image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {Object[]} images - The index, URL, variant URLs and metadata of each listing image the caller may see. Empty if there are none.
+ */
+app.get('/api/v2/listings/:listingId/images', identify, async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to retrieve a listing gallery. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.getListingImages, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { listingId } = input.params;
+        const { size, format } = input.query;
+
+        addLogContext({ imageType: "listing", entityId: listingId });
+
+        if (!checkSize(size, res)) {
+            return;
+        }
+
+        const gallery = await getGallery(listingId);
+
+        const visible = gallery.filter(image => canView(res.locals.caller, { type: 'listing', id: listingId }, image.visibility));
+
+        const metadata = await loadImageMetadata(visible);
+        const images = await Promise.all(visible.map(async (image, position) => ({
+            index: image.index,
+            visibility: image.visibility,
+            ...await resolveImageUrls(image.image, image.variants, { size, accept: req.headers.accept, format, visibility: image.visibility }),
+            metadata: metadata[position],
+        })));
+
+        log(`Sending ${images.length} image URLs to client.`);
+        res.vary('Accept');
+        res.status(200).json({ images });
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route POST /api/v2/listings/:listingId/images
+ * @desc Append an image to the end of a listing gallery.
+ * @param {number} listingId - The listing ID.
+ * @param {File} image - The image file.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to public.
+ * @returns {number} index - The index the image was stored at. The Location header points to it.
+ */
+app.post('/api/v2/listings/:listingId/images', authenticate, receiveImage(), requireOwnership(paramEntity('listing', 'listingId')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to append a listing image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.postListingImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { listingId } = input.params;
+        const { visibility } = input.body;
+        const file = input.file;
+
+        addLogContext({ imageType: "listing", entityId: listingId, file: file.originalname });
+
+        const index = await nextGalleryIndex(listingId);
+        addLogContext({ index });
+
+        if (index >= MAX_GALLERY_SIZE) {
+            res.status(409).json({ message: `Listing galleries are limited to ${MAX_GALLERY_SIZE} images.`, code: "GALLERY_FULL" });
+            log("Listing gallery is full. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage("listing", file.buffer, detected.mimetype, visibility);
+        log(`Image key: ${image.key}`);
+
+        try {
+            await writeImage({ type: 'listing', id: listingId, index }, image, visibility, null, describeUpload(res, file));
+        } catch (error) {
+            if (error instanceof SlotTakenError) {
+                res.status(409).json({ message: "Another image was appended at the same time. Try again.", code: "SLOT_TAKEN" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
+        const urls = await resolveImageUrls(image.key, image.variants, { accept: req.headers.accept, visibility });
+        res.status(201).location(`/api/v2/listings/${listingId}/images/${index}`).json({ index, ...urls, visibility });
+        log("Listing image appended.");
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route GET /api/v2/listings/:listingId/images/:index
+ * @desc Retrieve a single image of a listing.
+ * @param {number} listingId - The listing ID.
+ * @param {number} index - The index of the image in the gallery.
+ * @param {string} [size] - The size variant to return as the image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {string} imageUrl - The URL of the requested image.
+ * @returns {string} format - The format the returned URLs point to.
+ * @returns {Object} variants - The URL of every size variant of the image.
+ * @returns {string} visibility - Either "public" or "private".
+ * @returns {string} [expiresAt] - When the signed URLs of a private image stop working.
+ * @returns {Object} metadata - The dimensions, size, format, hash, placeholders and origin of the image.
+ */
+app.get('/api/v2/listings/:listingId/images/:index', identify, async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to retrieve a listing image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.getListingImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { listingId, index } = input.params;
+        const { size, format } = input.query;
+
+        addLogContext({ imageType: "listing", entityId: listingId, index });
+
+        if (!checkSize(size, res)) {
+            return;
+        }
+
+        const listing = await findImage({ type: 'listing', id: listingId, index });
+
+        // Private images of other owners are answered as if they did not exist.
+        if (!listing || !canView(res.locals.caller, { type: 'listing', id: listingId }, listing.visibility)) {
+            res.status(404).json({ message: "Listing image not found.", code: "IMAGE_NOT_FOUND" });
+            log("Listing image not found.", LogLevel.WARNING);
+            return;
+        }
+
+        const urls = await resolveImageUrls(listing.image, listing.variants, { size, accept: req.headers.accept, format, visibility: listing.visibility });
+        res.vary('Accept');
+        const [metadata] = await loadImageMetadata([listing]);
+        res.status(200).json({ index, ...urls, visibility: listing.visibility, metadata });
+        log("Image URL: " + urls.imageUrl);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route PUT /api/v2/listings/:listingId/images/:index
+ * @desc Upload the image at an index of a listing gallery, replacing the current one if there is one.
+ * @param {number} listingId - The listing ID.
+ * @param {number} index - The index of the image in the gallery.
+ * @param {File} image - The image file.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to the visibility of the current image, or public.
+ * @returns {number} status - 201 if the index was empty, 200 if its image was replaced.
+ */
+app.put('/api/v2/listings/:listingId/images/:index', authenticate, receiveImage(), requireOwnership(paramEntity('listing', 'listingId')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to put a listing image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.putListingImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { listingId, index } = input.params;
+        const file = input.file;
+        const slot: ImageSlot = { type: 'listing', id: listingId, index };
+
+        addLogContext({ imageType: "listing", entityId: listingId, index, file: file.originalname });
+
+        if (index >= MAX_GALLERY_SIZE) {
+            res.status(422).json({ message: `Listing galleries are limited to ${MAX_GALLERY_SIZE} images.`, code: "INDEX_OUT_OF_RANGE" });
+            log("Index is outside of the listing gallery. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        const existing = await findImage(slot);
+        const visibility: Visibility = input.body.visibility ?? existing?.visibility as Visibility ?? "public";
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage("listing", file.buffer, detected.mimetype, visibility);
+        log(`Image key: ${image.key}`);
+
+        try {
+            await writeImage(slot, image, visibility, existing, describeUpload(res, file));
+        } catch (error) {
+            if (error instanceof SlotTakenError) {
+                res.status(409).json({ message: error.message, code: "SLOT_TAKEN" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            if (error instanceof ImageChangedError) {
+                res.status(409).json({ message: error.message, code: "IMAGE_CHANGED" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
+        const urls = await resolveImageUrls(image.key, image.variants, { accept: req.headers.accept, visibility });
+
+        if (existing) {
+            res.status(200);
+            log("Listing image replaced.");
+        } else {
+            res.status(201).location(`/api/v2/listings/${listingId}/images/${index}`);
+            log("Listing image created.");
+        }
+
+        res.json({ index, ...urls, visibility });
+    } catch (error) {
+        // Concurrent uploads of the same content or to the same slot can still collide on a key.
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            res.status(409).json({ message: "Another request changed this image at the same time. Try again.", code: "CONFLICT" });
+            log("Image was changed by another request. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route DELETE /api/v2/listings/:listingId/images/:index
+ * @desc Delete a single image of a listing. The other images keep their indexes.
+ * @param {number} listingId - The listing ID.
+ * @param {number} index - The index of the image in the gallery.
+ */
+app.delete('/api/v2/listings/:listingId/images/:index', authenticate, requireOwnership(paramEntity('listing', 'listingId')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to delete a listing image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.deleteListingImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { listingId, index } = input.params;
+
+        addLogContext({ imageType: "listing", entityId: listingId, index });
+
+        const deleted = await deleteImage({ type: 'listing', id: listingId, index });
+
+        if (!deleted) {
+            res.status(404).json({ message: "Listing image not found.", code: "IMAGE_NOT_FOUND" });
+            log("Listing image not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        res.status(204).end();
+        log("Listing image deleted.");
+    } catch (error) {
+        // The image was deleted by another request between being found and being deleted.
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+            res.status(404).json({ message: "Listing image not found.", code: "IMAGE_NOT_FOUND" });
+            log("Listing image was deleted by another request. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -0,0 +1,202 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import express, { Express, Request, Response } from 'express';
+
+import { Prisma } from '@prisma/client';
+import { log, LogLevel, addLogContext } from '../../../utils/Logger.ts';
+import { validateRequest, schemas } from '../../RequestValidation.ts';
+import { authenticate, identify, canView, requireOwnership, paramEntity } from '../../Authentication.ts';
+import { receiveImage, checkUpload, describeUpload } from '../../UploadValidation.ts';
+import { checkSize, resolveImageUrls } from '../../../ImagePipeline.ts';
+import { retainImage } from '../../../Blobs.ts';
+import { ImageSlot, SlotTakenError, ImageChangedError, findImage, writeImage, loadImageMetadata, deleteImage } from '../../../Images.ts';
+import { Visibility } from '../../../storage/StorageBackend.ts';
+
+const app: Express = express();
+
+app.use(express.json());
+
+/**
+ * @route GET /api/v2/profiles/:userId/image
+ * @desc Retrieve the image of a user profile.
+ * @param {number} userId - The user ID.
+ * @param {string} [size] - The size variant to return as the image URL. Defaults to the original.
+ * @param {string} [format] - The image format to return, overriding the Accept header. Defaults to negotiation.
+ * @returns {string} imageUrl - The URL of the requested image.
+ * @returns {string} format - The format the returned URLs point to.
+ * @returns {Object} variants - The URL of every size variant of the image.
+ * @returns {string} visibility - Either "public" or "private".
+ * @returns {string} [expiresAt] - When the signed URLs of a private image stop working.
+ * @returns {Object} metadata - The dimensions, size, format, hash, placeholders and origin of the image.
+ */
+app.get('/api/v2/profiles/:userId/image', identify, async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to retrieve a profile image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.getProfileImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { userId } = input.params;
+        const { size, format } = input.query;
+
+        addLogContext({ imageType: "profile", entityId: userId });
+
+        if (!checkSize(size, res)) {
+            return;
+        }
+
+        const profile = await findImage({ type: 'profile', id: userId });
+
+        // Private images of other owners are answered as if they did not exist.
+        if (!profile || !canView(res.locals.caller, { type: 'profile', id: userId }, profile.visibility)) {
+            res.status(404).json({ message: "Profile image not found.", code: "IMAGE_NOT_FOUND" });
+            log("Profile image not found.", LogLevel.WARNING);
+            return;
+        }
+
+        const urls = await resolveImageUrls(profile.image, profile.variants, { size, accept: req.headers.accept, format, visibility: profile.visibility });
+        res.vary('Accept');
+        const [metadata] = await loadImageMetadata([profile]);
+        res.status(200).json({ ...urls, visibility: profile.visibility, metadata });
+        log("Image URL: " + urls.imageUrl);
+    } catch (error) {
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route PUT /api/v2/profiles/:userId/image
+ * @desc Upload the image of a user profile, replacing the current one if there is one.
+ * @param {number} userId - The user ID.
+ * @param {File} image - The image file.
+ * @param {string} [visibility] - Either "public" or "private". Defaults to the visibility of the current image, or public.
+ * @returns {number} status - 201 if the profile had no image yet, 200 if it was replaced.
+ */
+app.put('/api/v2/profiles/:userId/image', authenticate, receiveImage(), requireOwnership(paramEntity('profile', 'userId')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to put a profile image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.putProfileImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { userId } = input.params;
+        const file = input.file;
+        const slot: ImageSlot = { type: 'profile', id: userId };
+
+        addLogContext({ imageType: "profile", entityId: userId, file: file.originalname });
+
+        const existing = await findImage(slot);
+        const visibility: Visibility = input.body.visibility ?? existing?.visibility as Visibility ?? "public";
+
+        log("Checking image content...");
+        const detected = await checkUpload(file, res);
+        if (!detected) {
+            return;
+        }
+
+        log("Storing image and generating size variants...");
+        const image = await retainImage("profile", file.buffer, detected.mimetype, visibility);
+        log(`Image key: ${image.key}`);
+
+        try {
+            await writeImage(slot, image, visibility, existing, describeUpload(res, file));
+        } catch (error) {
+            if (error instanceof SlotTakenError) {
+                res.status(409).json({ message: error.message, code: "SLOT_TAKEN" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            if (error instanceof ImageChangedError) {
+                res.status(409).json({ message: error.message, code: "IMAGE_CHANGED" });
+                log(error.message + " Aborting.", LogLevel.WARNING);
+                return;
+            }
+
+            throw error;
+        }
+
+        const urls = await resolveImageUrls(image.key, image.variants, { accept: req.headers.accept, visibility });
+
+        if (existing) {
+            res.status(200);
+            log("Profile image replaced.");
+        } else {
+            res.status(201).location(`/api/v2/profiles/${userId}/image`);
+            log("Profile image created.");
+        }
+
+        res.json({ ...urls, visibility });
+    } catch (error) {
+        // Concurrent uploads of the same content or to the same slot can still collide on a key.
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            res.status(409).json({ message: "Another request changed this image at the same time. Try again.", code: "CONFLICT" });
+            log("Image was changed by another request. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+/**
+ * @route DELETE /api/v2/profiles/:userId/image
+ * @desc Delete the image of a user profile.
+ * @param {number} userId - The user ID.
+ */
+app.delete('/api/v2/profiles/:userId/image', authenticate, requireOwnership(paramEntity('profile', 'userId')), async (req: Request, res: Response) => {
+    try {
+        log("| Received API request to delete a profile image. (" + req.socket.remoteAddress + ")");
+        const input = validateRequest(schemas.deleteProfileImage, req, res);
+        if (!input) {
+            return;
+        }
+
+        const { userId } = input.params;
+
+        addLogContext({ imageType: "profile", entityId: userId });
+
+        const deleted = await deleteImage({ type: 'profile', id: userId });
+
+        if (!deleted) {
+            res.status(404).json({ message: "Profile image not found.", code: "IMAGE_NOT_FOUND" });
+            log("Profile image not found. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        res.status(204).end();
+        log("Profile image deleted.");
+    } catch (error) {
+        // The image was deleted by another request between being found and being deleted.
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+            res.status(404).json({ message: "Profile image not found.", code: "IMAGE_NOT_FOUND" });
+            log("Profile image was deleted by another request. Aborting.", LogLevel.WARNING);
+            return;
+        }
+
+        if (error instanceof Error) {
+            res.status(500).json({
+                message: 'Internal server error'
+            });
+
+            log("Internal server error: " + error.message, LogLevel.ERROR);
+        }
+    }
+});
+
+module.exports = app;
@@ -0,0 +1,53 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { log, LogLevel } from '../utils/Logger.ts';
+import { reconcileStorage, writeReport, ReconciliationOptions } from '../Reconciliation.ts';
+
+/**
+ * Reconciles storage with the database once and prints or saves the JSON report.
+ *
+ * Usage: npm run reconcile -- [--dry-run] [--grace-period <seconds>] [--output <file>]
+ */
+async function main(args: string[]): Promise<void> {
+    const options: ReconciliationOptions = {};
+    let output: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+        switch (args[i]) {
+            case '--dry-run':
+                options.dryRun = true;
+                break;
+            case '--grace-period':
+                options.gracePeriod = parseInt(args[++i]);
+                if (isNaN(options.gracePeriod) || options.gracePeriod < 0) {
+                    throw new Error("--grace-period must be a number of seconds.");
+                }
+                break;
+            case '--output':
+                output = args[++i];
+                if (!output) {
+                    throw new Error("--output must be followed by a file path.");
+                }
+                break;
+            default:
+                throw new Error("Unknown argument: " + args[i]);
+        }
+    }
+
+    const report = await reconcileStorage(options);
+
+    if (output) {
+        writeReport(report, output);
+        log("Reconciliation report written to " + output);
+    } else {
+        console.log(JSON.stringify(report, null, 2));
+    }
+}
+
+main(process.argv.slice(2)).then(() => {
+    process.exit(0);
+}).catch((error: Error) => {
+    log("Reconciliation failed: " + error.message, LogLevel.ERROR);
+    process.exit(1);
+});
@@ -0,0 +1,195 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import path from 'path';
+
+import { log } from '../utils/Logger.ts';
+import { StorageBackend, StoredObject, StoredObjectInfo, Visibility } from './StorageBackend.ts';
+import { createSignedQuery } from './UrlSigning.ts';
+
+/**
+ * Content types for the extensions the indexer stores, used when reading files back from disk.
+ * @type {Record<string, string>}
+ */
+const CONTENT_TYPES: Record<string, string> = {
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+    '.tiff': 'image/tiff',
+};
+
+/**
+ * The directory inside the storage root that holds private files.
+ * @type {string}
+ */
+const PRIVATE_DIRECTORY: string = ".private";
+
+/**
+ * Stores images in a directory on the local disk.
+ * Files are served over HTTP by the indexer itself, under the configured base URL. Private files are kept in a
+ * separate directory so the file route knows to ask for a signature.
+ */
+class LocalStorage implements StorageBackend {
+    readonly root: string;
+    private readonly privateRoot: string;
+    private readonly baseUrl: string;
+    private readonly cdnUrl?: string;
+
+    constructor(root: string, baseUrl: string, cdnUrl?: string) {
+        this.root = path.resolve(root);
+        this.privateRoot = path.join(this.root, PRIVATE_DIRECTORY);
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.cdnUrl = cdnUrl?.replace(/\/+$/, '');
+    }
+
+    /**
+     * Maps a key to a path inside the storage root, refusing keys that would escape it.
+     *
+     * @param {string} key - The object key.
+     * @param {Visibility} visibility - Which directory to resolve the key in.
+     * @return {string} - The absolute file path.
+     * @throws {Error} - If the key resolves outside of the storage root.
+     */
+    private resolve(key: string, visibility: Visibility): string {
+        const root = visibility === 'public' ? this.root : this.privateRoot;
+        const filePath = path.resolve(root, key);
+
+        if (!filePath.startsWith(root + path.sep) || (visibility === 'public' && filePath.startsWith(this.privateRoot + path.sep))) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+
+        return filePath;
+    }
+
+    /**
+     * Finds which directory a key is stored in.
+     *
+     * @param {string} key - The object key.
+     * @return {Promise<Visibility | null>} - The visibility of the file, or null if it does not exist.
+     */
+    private async locate(key: string): Promise<Visibility | null> {
+        for (const visibility of ['public', 'private'] as Visibility[]) {
+            try {
+                await fs.access(this.resolve(key, visibility));
+                return visibility;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw error;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    async upload(key: string, buffer: Buffer, contentType: string, visibility: Visibility = 'public'): Promise<void> {
+        const filePath = this.resolve(key, visibility);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+        await fs.rm(this.resolve(key, visibility === 'public' ? 'private' : 'public'), { force: true });
+        log(`File written to local storage: ${key} (${contentType}, ${visibility})`);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key, 'public'), { force: true });
+        await fs.rm(this.resolve(key, 'private'), { force: true });
+        log(`File deleted from local storage: ${key}`);
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return (await this.locate(key)) !== null;
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        const visibility = await this.locate(key);
+
+        if (!visibility) {
+            return null;
+        }
+
+        const filePath = this.resolve(key, visibility);
+        const buffer = await fs.readFile(filePath);
+        return { buffer, contentType: CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream', visibility };
+    }
+
+    async stat(key: string): Promise<StoredObjectInfo | null> {
+        const visibility = await this.locate(key);
+
+        if (!visibility) {
+            return null;
+        }
+
+        const stats = await fs.stat(this.resolve(key, visibility));
+        return { key, size: stats.size, lastModified: stats.mtime };
+    }
+
+    async list(prefix: string): Promise<StoredObjectInfo[]> {
+        const objects: StoredObjectInfo[] = [];
+        const walk = async (root: string, directory: string): Promise<void> => {
+            let entries;
+            try {
+                entries = await fs.readdir(directory, { withFileTypes: true });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return;
+                }
+                throw error;
+            }
+
+            for (const entry of entries) {
+                const entryPath = path.join(directory, entry.name);
+
+                if (entry.isDirectory()) {
+                    if (entryPath !== this.privateRoot) {
+                        await walk(root, entryPath);
+                    }
+                    continue;
+                }
+
+                const key = path.relative(root, entryPath).split(path.sep).join('/');
+                if (key.startsWith(prefix)) {
+                    const stats = await fs.stat(entryPath);
+                    objects.push({ key, size: stats.size, lastModified: stats.mtime });
+                }
+            }
+        };
+
+        await walk(this.root, this.root);
+        await walk(this.privateRoot, this.privateRoot);
+        return objects;
+    }
+
+    publicUrl(key: string): string {
+        return `${this.cdnUrl ?? this.baseUrl}/${key}`;
+    }
+
+    // Signed URLs always point at the indexer, which is the one checking the signature.
+    async signedUrl(key: string, expiresIn: number): Promise<string> {
+        return `${this.baseUrl}/${key}?${createSignedQuery(key, expiresIn)}`;
+    }
+
+    async setVisibility(key: string, visibility: Visibility): Promise<void> {
+        const current = await this.locate(key);
+
+        if (!current || current === visibility) {
+            return;
+        }
+
+        const target = this.resolve(key, visibility);
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.rename(this.resolve(key, current), target);
+        log(`Set ${key} to ${visibility}.`);
+    }
+
+    async checkHealth(): Promise<void> {
+        await fs.mkdir(this.root, { recursive: true });
+        await fs.access(this.root, fsConstants.R_OK | fsConstants.W_OK);
+    }
+}
+
+export { LocalStorage };
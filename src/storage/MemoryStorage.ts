@@ -0,0 +1,70 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { StorageBackend, StoredObject, StoredObjectInfo, Visibility } from './StorageBackend.ts';
+import { createSignedQuery } from './UrlSigning.ts';
+
+/**
+ * Keeps images in process memory. Everything is lost on restart, so this is only meant for tests and local experiments.
+ */
+class MemoryStorage implements StorageBackend {
+    private readonly objects = new Map<string, Required<StoredObject> & { lastModified: Date }>();
+    private readonly baseUrl: string;
+    private readonly cdnUrl?: string;
+
+    constructor(baseUrl: string, cdnUrl?: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.cdnUrl = cdnUrl?.replace(/\/+$/, '');
+    }
+
+    async upload(key: string, buffer: Buffer, contentType: string, visibility: Visibility = 'public'): Promise<void> {
+        this.objects.set(key, { buffer: Buffer.from(buffer), contentType, visibility, lastModified: new Date() });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.objects.delete(key);
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return this.objects.has(key);
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        const object = this.objects.get(key);
+        return object ? { buffer: object.buffer, contentType: object.contentType, visibility: object.visibility } : null;
+    }
+
+    async stat(key: string): Promise<StoredObjectInfo | null> {
+        const object = this.objects.get(key);
+        return object ? { key, size: object.buffer.length, lastModified: object.lastModified } : null;
+    }
+
+    async list(prefix: string): Promise<StoredObjectInfo[]> {
+        return [...this.objects.entries()]
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([key, object]) => ({ key, size: object.buffer.length, lastModified: object.lastModified }));
+    }
+
+    publicUrl(key: string): string {
+        return `${this.cdnUrl ?? this.baseUrl}/${key}`;
+    }
+
+    // Signed URLs always point at the indexer, which is the one checking the signature.
+    async signedUrl(key: string, expiresIn: number): Promise<string> {
+        return `${this.baseUrl}/${key}?${createSignedQuery(key, expiresIn)}`;
+    }
+
+    async setVisibility(key: string, visibility: Visibility): Promise<void> {
+        const object = this.objects.get(key);
+
+        if (object) {
+            object.visibility = visibility;
+        }
+    }
+
+    async checkHealth(): Promise<void> {
+        // Process memory is always available.
+    }
+}
+
+export { MemoryStorage };
@@ -0,0 +1,228 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import {
+    S3Client,
+    PutObjectCommand,
+    DeleteObjectCommand,
+    HeadObjectCommand,
+    GetObjectCommand,
+    ListObjectsV2Command,
+    ListObjectsV2CommandOutput,
+    PutObjectAclCommand,
+    HeadBucketCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+import { log, LogLevel } from "../utils/Logger.ts";
+import { StorageBackend, StoredObject, StoredObjectInfo, Visibility } from "./StorageBackend.ts";
+
+/**
+ * Connection details for an S3 bucket.
+ * Without credentials, the AWS SDK looks them up itself, e.g. from an instance role.
+ */
+interface S3StorageOptions {
+    bucket: string;
+    region: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    cdnUrl?: string;
+}
+
+/**
+ * Checks whether an AWS SDK error means the object does not exist.
+ *
+ * @param {unknown} error - The error thrown by the S3 client.
+ * @return {boolean} - Returns true for "not found" errors, false otherwise.
+ */
+function isNotFound(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+        return false;
+    }
+
+    const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+    return error.name === 'NotFound' || error.name === 'NoSuchKey' || status === 404;
+}
+
+/**
+ * Stores images in an Amazon S3 bucket. Object ACLs decide whether an image is public.
+ */
+class S3Storage implements StorageBackend {
+    private readonly client: S3Client;
+    private readonly bucket: string;
+    private readonly region: string;
+    private readonly endpoint?: string;
+    private readonly cdnUrl?: string;
+
+    constructor(options: S3StorageOptions) {
+        this.bucket = options.bucket;
+        this.region = options.region;
+        this.endpoint = options.endpoint?.replace(/\/+$/, '');
+        this.cdnUrl = options.cdnUrl?.replace(/\/+$/, '');
+        this.client = new S3Client({
+            region: options.region,
+            endpoint: this.endpoint,
+            forcePathStyle: options.forcePathStyle,
+            credentials: options.accessKeyId && options.secretAccessKey ? {
+                accessKeyId: options.accessKeyId,
+                secretAccessKey: options.secretAccessKey
+            } : undefined
+        });
+    }
+
+    async upload(key: string, buffer: Buffer, contentType: string, visibility: Visibility = 'public'): Promise<void> {
+        const uploadParams = {
+            Bucket: this.bucket,
+            Body: buffer,
+            Key: key,
+            ContentType: contentType,
+            ACL: visibility === 'public' ? 'public-read' : 'private',
+        };
+
+        log("Sent upload request to S3.");
+        try {
+            await this.client.send(new PutObjectCommand(uploadParams));
+            log(`File uploaded successfully: ${key}`);
+        } catch (error) {
+            if (error instanceof Error) {
+                log(`Error uploading file: ${error.message}`, LogLevel.ERROR);
+            }
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        const deleteParams = {
+            Bucket: this.bucket,
+            Key: key,
+        };
+
+        log("Sent delete request to S3.");
+        try {
+            await this.client.send(new DeleteObjectCommand(deleteParams));
+            log(`File deleted successfully: ${key}`);
+        } catch (error) {
+            if (error instanceof Error) {
+                log(`Error deleting file: ${error.message}`, LogLevel.ERROR);
+            }
+            throw error;
+        }
+    }
+
+    async exists(key: string): Promise<boolean> {
+        try {
+            await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+            return true;
+        } catch (error) {
+            if (isNotFound(error)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        try {
+            const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+
+            if (!response.Body) {
+                return null;
+            }
+
+            return {
+                buffer: Buffer.from(await response.Body.transformToByteArray()),
+                contentType: response.ContentType ?? 'application/octet-stream',
+            };
+        } catch (error) {
+            if (isNotFound(error)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async stat(key: string): Promise<StoredObjectInfo | null> {
+        try {
+            const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+            return { key, size: response.ContentLength ?? 0, lastModified: response.LastModified ?? new Date(0) };
+        } catch (error) {
+            if (isNotFound(error)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async list(prefix: string): Promise<StoredObjectInfo[]> {
+        const objects: StoredObjectInfo[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const response: ListObjectsV2CommandOutput = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: prefix,
+                ContinuationToken: continuationToken,
+            }));
+
+            for (const object of response.Contents ?? []) {
+                if (object.Key) {
+                    objects.push({
+                        key: object.Key,
+                        size: object.Size ?? 0,
+                        lastModified: object.LastModified ?? new Date(0),
+                    });
+                }
+            }
+
+            continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (continuationToken);
+
+        return objects;
+    }
+
+    publicUrl(key: string): string {
+        if (this.cdnUrl) {
+            return `${this.cdnUrl}/${key}`;
+        }
+
+        // S3-compatible stand-ins such as MinIO are addressed by path rather than by bucket subdomain.
+        if (this.endpoint) {
+            return `${this.endpoint}/${this.bucket}/${key}`;
+        }
+
+        return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`;
+    }
+
+    async signedUrl(key: string, expiresIn: number): Promise<string> {
+        return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), { expiresIn });
+    }
+
+    async setVisibility(key: string, visibility: Visibility): Promise<void> {
+        log(`Setting ${key} to ${visibility}.`);
+        await this.client.send(new PutObjectAclCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ACL: visibility === 'public' ? 'public-read' : 'private',
+        }));
+    }
+
+    async checkHealth(): Promise<void> {
+        await this.client.send(new HeadBucketCommand({ Bucket: this.bucket }));
+    }
+
+    async createUploadUrl(key: string, contentType: string, contentLength: number, expiresIn: number): Promise<string> {
+        const command = new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: contentType,
+            ContentLength: contentLength,
+        });
+
+        // Signing the Content-Length makes S3 reject uploads of any other size.
+        return getSignedUrl(this.client, command, { expiresIn, signableHeaders: new Set(['content-type', 'content-length']) });
+    }
+}
+
+export { S3Storage, S3StorageOptions };
@@ -0,0 +1,57 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { log } from '../utils/Logger.ts';
+import { instrumentStorage } from '../utils/Metrics.ts';
+import { StorageBackend } from './StorageBackend.ts';
+import { S3Storage } from './S3Storage.ts';
+import { LocalStorage } from './LocalStorage.ts';
+import { MemoryStorage } from './MemoryStorage.ts';
+import { config } from '../Config.ts';
+
+/**
+ * The path the indexer serves stored files from when it is not backed by S3.
+ * @type {string}
+ */
+const FILE_ROUTE: string = "/files";
+
+/**
+ * Creates the storage backend selected by the STORAGE_BACKEND setting.
+ * Supported values are "s3" (the default), "local" and "memory".
+ *
+ * @return {StorageBackend} - The configured storage backend.
+ * @throws {Error} - If an unknown backend is configured.
+ */
+function createStorage(): StorageBackend {
+    const { backend, cdnUrl } = config.storage;
+    const baseUrl: string = config.storage.publicUrl ?? `http://localhost:${config.port}${FILE_ROUTE}`;
+
+    switch (backend) {
+        case "s3":
+            return new S3Storage({ ...config.storage.s3, cdnUrl });
+
+        case "local":
+            return new LocalStorage(config.storage.localPath, baseUrl, cdnUrl);
+
+        case "memory":
+            return new MemoryStorage(baseUrl, cdnUrl);
+
+        default:
+            throw new Error(`Unknown storage backend: ${backend}`);
+    }
+}
+
+/**
+ * The storage backend shared by the whole service. The latency and errors of every call to it are recorded as metrics.
+ * @type {StorageBackend}
+ */
+const storage: StorageBackend = instrumentStorage(createStorage());
+log(`Using ${storage.constructor.name} storage backend.`);
+
+/**
+ * Whether files have to be served by the indexer, rather than by the storage provider.
+ * @type {boolean}
+ */
+const servesFiles: boolean = !(storage instanceof S3Storage);
+
+export { storage, servesFiles, FILE_ROUTE };
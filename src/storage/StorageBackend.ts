@@ -0,0 +1,130 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+/**
+ * Who can read a stored file. Private files can only be fetched through signed URLs.
+ */
+type Visibility = 'public' | 'private';
+
+/**
+ * An object read back from storage.
+ * Backends that cannot cheaply tell whether an object is private leave the visibility out.
+ */
+interface StoredObject {
+    buffer: Buffer;
+    contentType: string;
+    visibility?: Visibility;
+}
+
+/**
+ * A summary of an object returned when listing storage.
+ */
+interface StoredObjectInfo {
+    key: string;
+    size: number;
+    lastModified: Date;
+}
+
+/**
+ * A place image files can be stored, read from, and linked to.
+ */
+interface StorageBackend {
+    /**
+     * Stores a file, replacing any existing object with the same key.
+     *
+     * @param {string} key - The object key.
+     * @param {Buffer} buffer - The file contents.
+     * @param {string} contentType - The MIME type of the file.
+     * @param {Visibility} [visibility] - Who can read the file. Defaults to public.
+     * @throws {Error} - If the file could not be stored.
+     */
+    upload(key: string, buffer: Buffer, contentType: string, visibility?: Visibility): Promise<void>;
+
+    /**
+     * Deletes a file. Deleting a key that does not exist is not an error.
+     *
+     * @param {string} key - The object key.
+     * @throws {Error} - If the file could not be deleted.
+     */
+    delete(key: string): Promise<void>;
+
+    /**
+     * Checks whether a file exists.
+     *
+     * @param {string} key - The object key.
+     * @return {Promise<boolean>} - Returns true if the file exists, false otherwise.
+     */
+    exists(key: string): Promise<boolean>;
+
+    /**
+     * Reads a file.
+     *
+     * @param {string} key - The object key.
+     * @return {Promise<StoredObject | null>} - The file contents, or null if it does not exist.
+     */
+    get(key: string): Promise<StoredObject | null>;
+
+    /**
+     * Looks up the size of a file without reading it.
+     *
+     * @param {string} key - The object key.
+     * @return {Promise<StoredObjectInfo | null>} - The size and modification time of the file, or null if it does not exist.
+     */
+    stat(key: string): Promise<StoredObjectInfo | null>;
+
+    /**
+     * Lists every file whose key starts with a prefix.
+     *
+     * @param {string} prefix - The key prefix, e.g. "assets/img/".
+     * @return {Promise<StoredObjectInfo[]>} - The matching files.
+     */
+    list(prefix: string): Promise<StoredObjectInfo[]>;
+
+    /**
+     * Builds the URL clients can fetch a file from.
+     *
+     * @param {string} key - The object key.
+     * @return {string} - The public URL of the file.
+     */
+    publicUrl(key: string): string;
+
+    /**
+     * Builds a time-limited URL that can read a file regardless of its visibility.
+     *
+     * @param {string} key - The object key.
+     * @param {number} expiresIn - How long the URL stays valid, in seconds.
+     * @return {Promise<string>} - The signed URL.
+     */
+    signedUrl(key: string, expiresIn: number): Promise<string>;
+
+    /**
+     * Changes who can read an existing file.
+     *
+     * @param {string} key - The object key.
+     * @param {Visibility} visibility - The new visibility.
+     * @throws {Error} - If the visibility could not be changed.
+     */
+    setVisibility(key: string, visibility: Visibility): Promise<void>;
+
+    /**
+     * Checks that the backend can be reached, without reading or writing any file.
+     *
+     * @throws {Error} - If the backend is unavailable.
+     */
+    checkHealth(): Promise<void>;
+
+    /**
+     * Creates a URL a client can PUT a file to directly, bypassing the indexer. The URL only accepts a file of exactly
+     * the given size, so clients cannot upload more than they asked for. Only backends with their own HTTP endpoint
+     * support this.
+     *
+     * @param {string} key - The object key the file will be stored at.
+     * @param {string} contentType - The MIME type the client has to send.
+     * @param {number} contentLength - The size of the file the client has to send, in bytes.
+     * @param {number} expiresIn - How long the URL stays valid, in seconds.
+     * @return {Promise<string>} - The presigned upload URL.
+     */
+    createUploadUrl?(key: string, contentType: string, contentLength: number, expiresIn: number): Promise<string>;
+}
+
+export { StorageBackend, StoredObject, StoredObjectInfo, Visibility };
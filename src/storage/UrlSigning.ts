@@ -0,0 +1,102 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import crypto from 'crypto';
+import { config } from '../Config.ts';
+
+// The configuration requires a secret for local storage. In-memory storage loses its files on restart anyway, so it
+// signs its URLs with a secret of its own.
+const secret: string | undefined = config.storage.signingSecret
+    ?? (config.storage.backend === 'memory' ? crypto.randomBytes(32).toString('hex') : undefined);
+
+// Transformations are signed with the configured secret only, since their URLs are cached by CDNs and shared between
+// instances. Without one, only presets can be requested.
+const transformSecret: string | undefined = config.storage.signingSecret;
+
+/**
+ * Compute the signature of a key for a given expiry time.
+ *
+ * @param {string} key - The object key.
+ * @param {number} expires - The expiry time, in seconds since the epoch.
+ * @return {string} - The hex encoded signature.
+ * @throws {Error} - If no signing secret is configured.
+ */
+function sign(key: string, expires: number): string {
+    if (!secret) {
+        throw new Error("STORAGE_SIGNING_SECRET is not configured.");
+    }
+
+    return crypto.createHmac('sha256', secret).update(`${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Build the query string that grants temporary access to a file served by the indexer.
+ *
+ * @param {string} key - The object key.
+ * @param {number} expiresIn - How long the access lasts, in seconds.
+ * @return {string} - The query string, without a leading question mark.
+ */
+function createSignedQuery(key: string, expiresIn: number): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    return `expires=${expires}&signature=${sign(key, expires)}`;
+}
+
+/**
+ * Check a signed query string created by createSignedQuery.
+ *
+ * @param {string} key - The object key.
+ * @param {unknown} expires - The expires query parameter.
+ * @param {unknown} signature - The signature query parameter.
+ * @return {boolean} - Returns true if the signature is valid and has not expired, false otherwise.
+ */
+function verifySignedQuery(key: string, expires: unknown, signature: unknown): boolean {
+    if (!secret || typeof expires !== 'string' || typeof signature !== 'string') {
+        return false;
+    }
+
+    const expiresAt = parseInt(expires);
+    if (isNaN(expiresAt) || expiresAt < Date.now() / 1000) {
+        return false;
+    }
+
+    const expected = Buffer.from(sign(key, expiresAt), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+/**
+ * Sign the parameters of an image transformation, so they can be requested without being a configured preset.
+ * Transformations are cached by CDNs, so their signatures do not expire.
+ *
+ * @param {string} key - The object key.
+ * @param {string} parameters - The transformation in its canonical form, e.g. "w=400&h=300&fit=cover".
+ * @return {string} - The hex encoded signature.
+ * @throws {Error} - If no signing secret is configured.
+ */
+function signTransform(key: string, parameters: string): string {
+    if (!transformSecret) {
+        throw new Error("STORAGE_SIGNING_SECRET is not configured.");
+    }
+
+    return crypto.createHmac('sha256', transformSecret).update(`transform:${key}?${parameters}`).digest('hex');
+}
+
+/**
+ * Check a signature created by signTransform.
+ *
+ * @param {string} key - The object key.
+ * @param {string} parameters - The transformation in its canonical form.
+ * @param {unknown} signature - The signature query parameter.
+ * @return {boolean} - Returns true if the signature is valid, false otherwise, and always without a signing secret.
+ */
+function verifyTransform(key: string, parameters: string, signature: unknown): boolean {
+    if (!transformSecret || typeof signature !== 'string') {
+        return false;
+    }
+
+    const expected = Buffer.from(signTransform(key, parameters), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+export { createSignedQuery, verifySignedQuery, signTransform, verifyTransform };
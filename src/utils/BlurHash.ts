@@ -0,0 +1,115 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+/**
+ * The digits of the base 83 encoding BlurHash strings are written in.
+ * @type {string}
+ */
+const BASE83_DIGITS: string = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~";
+
+/**
+ * @param {number} value - A non-negative integer.
+ * @param {number} length - The number of digits to write.
+ * @return {string} - The value in base 83, padded to the given length.
+ */
+function encodeBase83(value: number, length: number): string {
+    let result = "";
+
+    for (let digit = 1; digit <= length; digit++) {
+        result += BASE83_DIGITS[Math.floor(value / 83 ** (length - digit)) % 83];
+    }
+
+    return result;
+}
+
+/**
+ * @param {number} value - An sRGB channel value, from 0 to 255.
+ * @return {number} - The linear channel value, from 0 to 1.
+ */
+function srgbToLinear(value: number): number {
+    const scaled = value / 255;
+    return scaled <= 0.04045 ? scaled / 12.92 : ((scaled + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * @param {number} value - A linear channel value, from 0 to 1.
+ * @return {number} - The sRGB channel value, from 0 to 255.
+ */
+function linearToSrgb(value: number): number {
+    const clamped = Math.max(0, Math.min(1, value));
+    return clamped <= 0.0031308
+        ? Math.trunc(clamped * 12.92 * 255 + 0.5)
+        : Math.trunc((1.055 * clamped ** (1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+/**
+ * @param {number} value - The base.
+ * @param {number} exponent - The exponent.
+ * @return {number} - The power of the absolute value, with the sign of the base.
+ */
+function signedPow(value: number, exponent: number): number {
+    return Math.sign(value) * Math.abs(value) ** exponent;
+}
+
+/**
+ * Encodes raw pixels as a BlurHash, a short string clients decode into a blurred preview of the image.
+ * See https://blurha.sh for the format.
+ *
+ * @param {Buffer} pixels - The raw pixels, row by row, starting with the red, green and blue channels.
+ * @param {number} width - The width of the pixels, which should be small since every pixel is visited per component.
+ * @param {number} height - The height of the pixels.
+ * @param {number} channels - The number of channels per pixel, e.g. 3 for RGB or 4 for RGBA.
+ * @param {number} componentsX - The number of horizontal components, from 1 to 9.
+ * @param {number} componentsY - The number of vertical components, from 1 to 9.
+ * @return {string} - The BlurHash.
+ */
+function encodeBlurHash(pixels: Buffer, width: number, height: number, channels: number, componentsX: number, componentsY: number): string {
+    const factors: [number, number, number][] = [];
+
+    for (let y = 0; y < componentsY; y++) {
+        for (let x = 0; x < componentsX; x++) {
+            const normalisation = x === 0 && y === 0 ? 1 : 2;
+            let red = 0, green = 0, blue = 0;
+
+            for (let row = 0; row < height; row++) {
+                for (let column = 0; column < width; column++) {
+                    const basis = normalisation * Math.cos(Math.PI * x * column / width) * Math.cos(Math.PI * y * row / height);
+                    const offset = (row * width + column) * channels;
+
+                    red += basis * srgbToLinear(pixels[offset]);
+                    green += basis * srgbToLinear(pixels[offset + 1]);
+                    blue += basis * srgbToLinear(pixels[offset + 2]);
+                }
+            }
+
+            const scale = 1 / (width * height);
+            factors.push([red * scale, green * scale, blue * scale]);
+        }
+    }
+
+    const [dc, ...ac] = factors;
+    let hash = encodeBase83((componentsX - 1) + (componentsY - 1) * 9, 1);
+
+    // The AC components are quantised relative to the largest one, which is stored first.
+    let maximum = 1;
+    if (ac.length > 0) {
+        const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+        const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+
+        maximum = (quantisedMaximum + 1) / 166;
+        hash += encodeBase83(quantisedMaximum, 1);
+    } else {
+        hash += encodeBase83(0, 1);
+    }
+
+    hash += encodeBase83((linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]), 4);
+
+    for (const factor of ac) {
+        const [red, green, blue] = factor.map(value => Math.max(0, Math.min(18, Math.floor(signedPow(value / maximum, 0.5) * 9 + 9.5))));
+        hash += encodeBase83(red * 19 * 19 + green * 19 + blue, 2);
+    }
+
+    return hash;
+}
+
+export { encodeBlurHash };
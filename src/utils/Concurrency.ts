@@ -0,0 +1,28 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+/**
+ * Runs a task for every item, with at most `limit` tasks running at the same time.
+ *
+ * @param {T[]} items - The items to run the task for.
+ * @param {number} limit - The largest number of tasks running at once.
+ * @param {Function} task - The task, called with each item and its position.
+ * @return {Promise<R[]>} - The results, in the order of the items.
+ * @throws {Error} - If a task throws. Tasks that already started keep running, but no new ones are started.
+ */
+async function mapConcurrently<T, R>(items: T[], limit: number, task: (item: T, position: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const position = next++;
+            results[position] = await task(items[position], position);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+export { mapConcurrently };
@@ -0,0 +1,66 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+/**
+ * Modern formats in order of preference. The first one the caller supports wins.
+ * @type {string[]}
+ */
+const PREFERRED_FORMATS: string[] = ['avif', 'webp'];
+
+/**
+ * Parse an Accept header into the image formats it explicitly allows.
+ * Wildcards are ignored, as `*\/*` says nothing about whether a client can decode AVIF or WebP.
+ *
+ * @param {string} accept - The Accept header.
+ * @return {Set<string>} - The accepted image subtypes, e.g. "webp".
+ */
+function parseAcceptedFormats(accept: string): Set<string> {
+    const formats = new Set<string>();
+
+    for (const entry of accept.split(',')) {
+        const [mediaType, ...parameters] = entry.trim().toLowerCase().split(';');
+        const quality = parameters.map(parameter => parameter.trim()).find(parameter => parameter.startsWith('q='));
+
+        if (quality && parseFloat(quality.substring(2)) <= 0) {
+            continue;
+        }
+
+        if (mediaType.startsWith('image/') && mediaType !== 'image/*') {
+            formats.add(mediaType.substring('image/'.length));
+        }
+    }
+
+    return formats;
+}
+
+/**
+ * Pick the format an image should be served in.
+ *
+ * An explicit override wins if that format is available. Otherwise the most preferred modern format listed in the
+ * Accept header is used. If neither applies, the image is served in the format it was uploaded in.
+ *
+ * @param {string | undefined} accept - The caller's Accept header.
+ * @param {string[]} available - The formats the image has been stored in.
+ * @param {string} original - The format the image was uploaded in.
+ * @param {string} [override] - A format requested explicitly, e.g. through `?format=`. "original" selects the upload format.
+ * @return {string} - The format to serve.
+ */
+function negotiateFormat(accept: string | undefined, available: string[], original: string, override?: string): string {
+    if (override) {
+        const requested = override.toLowerCase();
+        return requested !== 'original' && available.includes(requested) ? requested : original;
+    }
+
+    if (accept) {
+        const accepted = parseAcceptedFormats(accept);
+        const match = PREFERRED_FORMATS.find(format => accepted.has(format) && available.includes(format));
+
+        if (match) {
+            return match;
+        }
+    }
+
+    return original;
+}
+
+export { negotiateFormat };
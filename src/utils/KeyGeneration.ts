@@ -7,12 +7,14 @@
  * @param {string} type - The image type, either "profile" or "listing".
  * @param {string} imageHash - The hash of the image file.
  * @param {string} mimetype - The mimetype of the image file.
+ * @param {string} [variant] - The size variant name. The original image has no suffix.
  * @return {string} - The generated image key.
  */
-function generateImageKey(type: string, imageHash: string, mimetype: string): string {
+function generateImageKey(type: string, imageHash: string, mimetype: string, variant?: string): string {
     const extension: string = mimetype.split('/')[1];
     const folder: string = type === "profile" ? "profile" : "listing";
-    const key: string = `assets/img/${folder}/${imageHash.substring(0, 1)}/${imageHash.substring(0, 2)}/${imageHash}.${extension}`;
+    const suffix: string = variant ? `_${variant}` : "";
+    const key: string = `assets/img/${folder}/${imageHash.substring(0, 1)}/${imageHash.substring(0, 2)}/${imageHash}${suffix}.${extension}`;
     return key;
 }
 
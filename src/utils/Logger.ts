@@ -2,6 +2,12 @@
 // See the LICENCE file in the repository root for full licence text.
 
 import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../Config.ts';
 
 enum LogLevel {
     VERBOSE = 'verbose',
@@ -9,63 +15,176 @@ enum LogLevel {
     ERROR = 'error',
 }
 
-let currentLogFileName: string | null = null;
-
-const log = (message: string, level: LogLevel = LogLevel.VERBOSE): void => {
-    const now = new Date();
-    const localDate = now.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-    }).split('/').reverse().join('-');
-
-    const localTimeStamp = now.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false,
-    });
+/**
+ * Structured fields added to a log entry, e.g. the entity ID a request is about.
+ */
+type LogFields = Record<string, unknown>;
 
-    const logMessage: string = `${localDate} ${localTimeStamp} [${level}]: ${message}`;
-    console.log(logMessage);
+const LEVEL_ORDER: LogLevel[] = [LogLevel.VERBOSE, LogLevel.WARNING, LogLevel.ERROR];
 
-    const logDirectory = './logs/';
-    if (!fs.existsSync(logDirectory)) {
-        fs.mkdirSync(logDirectory);
-    }
+// The lowest level that is written. The config only accepts the names of the levels.
+const minimumLevel: LogLevel = config.logging.level as LogLevel;
 
-    if (!currentLogFileName) {
-        currentLogFileName = getLogFileName();
-    }
+const logDirectory: string = config.logging.directory;
+
+// A new log file is started once the current one reaches this size in bytes, or when the day changes.
+const maxFileSize: number = config.logging.maxFileSize;
 
-    fs.appendFile(logDirectory + currentLogFileName, logMessage + '\n', (err) => {
+// Log files older than this many days are deleted whenever a new file is started.
+const retentionDays: number = config.logging.retentionDays;
+
+// Holds the fields of the request being handled, so every entry logged while handling it carries them.
+const context = new AsyncLocalStorage<LogFields>();
+
+let currentStream: fs.WriteStream | null = null;
+let currentPath: string | null = null;
+let currentDate: string | null = null;
+let currentSize = 0;
+
+/**
+ * Deletes log files that are older than the retention period.
+ */
+function pruneLogFiles(): void {
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+    fs.readdir(logDirectory, (err, files) => {
         if (err) {
-            console.error(`Error writing to log file: ${err.message}.`);
+            console.error(`Error reading log directory: ${err.message}.`);
+            return;
+        }
+
+        for (const file of files.filter(name => name.endsWith('.log'))) {
+            const filePath = path.join(logDirectory, file);
+
+            fs.stat(filePath, (statErr, stats) => {
+                if (!statErr && stats.mtimeMs < cutoff && filePath !== currentPath) {
+                    fs.unlink(filePath, () => undefined);
+                }
+            });
         }
     });
-};
+}
 
-function getLogFileName(): string {
-    const now = new Date();
-    const localDate = now.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-    }).split('/').reverse().join('-');
+/**
+ * Starts a new log file for the given day, numbered after any files already written that day.
+ *
+ * @param {string} date - The current date, e.g. "2023-04-14".
+ */
+function rotateLogFile(date: string): void {
+    currentStream?.end();
 
-    let logNumber = 0;
-    let logFileName = `${localDate}-${logNumber}.log`;
+    fs.mkdirSync(logDirectory, { recursive: true });
 
-    while (fs.existsSync('./logs/' + logFileName)) {
+    let logNumber = 0;
+    while (fs.existsSync(path.join(logDirectory, `${date}-${logNumber}.log`))) {
         logNumber++;
-        logFileName = `${localDate}-${logNumber}.log`;
     }
 
-    return logFileName;
+    // The file is opened synchronously so it exists before the next rotation looks for a free name.
+    currentPath = path.join(logDirectory, `${date}-${logNumber}.log`);
+    currentStream = fs.createWriteStream(currentPath, { fd: fs.openSync(currentPath, 'a') });
+    currentStream.on('error', (err) => {
+        console.error(`Error writing to log file: ${err.message}.`);
+    });
+    currentDate = date;
+    currentSize = 0;
+
+    pruneLogFiles();
 }
 
-function padText(text: string, length: number): string {
-    return (text + ' '.repeat(length)).substring(0, length);
+/**
+ * Appends a line to the current log file, rotating it first if it is full or from a previous day.
+ *
+ * @param {string} line - The serialised log entry.
+ */
+function writeToFile(line: string): void {
+    const date = new Date().toISOString().substring(0, 10);
+
+    if (!currentStream || date !== currentDate || currentSize >= maxFileSize) {
+        rotateLogFile(date);
+    }
+
+    currentStream?.write(line + '\n');
+    currentSize += Buffer.byteLength(line) + 1;
+}
+
+/**
+ * Writes a JSON log entry to the console and the current log file.
+ *
+ * @param {string} message - What happened.
+ * @param {LogLevel} [level] - How important it is. Entries below LOG_LEVEL are dropped.
+ * @param {LogFields} [fields] - Structured fields to add to the entry.
+ */
+const log = (message: string, level: LogLevel = LogLevel.VERBOSE, fields: LogFields = {}): void => {
+    if (LEVEL_ORDER.indexOf(level) < LEVEL_ORDER.indexOf(minimumLevel)) {
+        return;
+    }
+
+    const entry = {
+        timestamp: new Date().toISOString(),
+        level,
+        message,
+        ...context.getStore(),
+        ...fields,
+    };
+
+    const line = JSON.stringify(entry);
+    console.log(line);
+    writeToFile(line);
+};
+
+/**
+ * Adds fields to every entry logged for the rest of the current request, e.g. once the entity ID is known.
+ * Does nothing outside of a request.
+ *
+ * @param {LogFields} fields - The fields to add.
+ */
+function addLogContext(fields: LogFields): void {
+    const store = context.getStore();
+
+    if (store) {
+        Object.assign(store, fields);
+    }
+}
+
+/**
+ * Runs work in its own log context, e.g. a background job, so its entries carry the given fields instead of those of
+ * the request that started it.
+ *
+ * @param {LogFields} fields - The fields every entry logged by the work carries.
+ * @param {Function} work - The work to run.
+ * @return {T} - The result of the work.
+ */
+function runWithLogContext<T>(fields: LogFields, work: () => T): T {
+    return context.run({ ...fields }, work);
+}
+
+/**
+ * Gives every request an ID, taken from its `X-Request-Id` header or generated, and echoes it back.
+ * Entries logged while handling the request carry the ID, and the request is logged with its duration once it is done.
+ *
+ * @param {Request} req - The Express Request object.
+ * @param {Response} res - The Express Response object.
+ * @param {NextFunction} next - Continues with the next handler.
+ */
+function requestLogger(req: Request, res: Response, next: NextFunction): void {
+    const header = req.header('X-Request-Id');
+    const requestId = header && /^[\w.:-]{1,128}$/.test(header) ? header : crypto.randomUUID();
+    const started = process.hrtime.bigint();
+    const fields: LogFields = { requestId, method: req.method, route: req.path };
+
+    res.setHeader('X-Request-Id', requestId);
+
+    context.run(fields, () => {
+        res.on('finish', () => {
+            const durationMs = Number(process.hrtime.bigint() - started) / 1e6;
+            const level = res.statusCode >= 500 ? LogLevel.ERROR : res.statusCode >= 400 ? LogLevel.WARNING : LogLevel.VERBOSE;
+
+            log("Request completed.", level, { ...fields, status: res.statusCode, durationMs: Math.round(durationMs * 100) / 100 });
+        });
+
+        next();
+    });
 }
 
-export { log, LogLevel, padText };
+export { log, LogLevel, LogFields, addLogContext, runWithLogContext, requestLogger };
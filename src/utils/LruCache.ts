@@ -0,0 +1,86 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+/**
+ * A cache that evicts the least recently used entries once their combined size exceeds a budget.
+ * Maps keep their insertion order, so re-inserting an entry on every read keeps the oldest one first.
+ */
+class LruCache<V> {
+    private readonly entries = new Map<string, { value: V, size: number }>();
+    private totalSize = 0;
+
+    /**
+     * @param {number} maxSize - The largest combined size of all entries. A budget of 0 disables the cache.
+     * @param {Function} sizeOf - Measures an entry, e.g. the length of a buffer.
+     */
+    constructor(private readonly maxSize: number, private readonly sizeOf: (value: V) => number) {}
+
+    /**
+     * @param {string} key - The cache key.
+     * @return {V | undefined} - The cached value, or undefined if it is not cached.
+     */
+    get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+
+        if (entry) {
+            this.entries.delete(key);
+            this.entries.set(key, entry);
+        }
+
+        return entry?.value;
+    }
+
+    /**
+     * Caches a value, evicting the least recently used entries to make room. Values larger than the whole budget are
+     * not cached.
+     *
+     * @param {string} key - The cache key.
+     * @param {V} value - The value.
+     */
+    set(key: string, value: V): void {
+        const size = this.sizeOf(value);
+        this.delete(key);
+
+        if (size > this.maxSize) {
+            return;
+        }
+
+        this.entries.set(key, { value, size });
+        this.totalSize += size;
+
+        for (const [oldest, entry] of this.entries) {
+            if (this.totalSize <= this.maxSize) {
+                break;
+            }
+
+            this.entries.delete(oldest);
+            this.totalSize -= entry.size;
+        }
+    }
+
+    /**
+     * @param {string} key - The cache key.
+     */
+    delete(key: string): void {
+        const entry = this.entries.get(key);
+
+        if (entry) {
+            this.entries.delete(key);
+            this.totalSize -= entry.size;
+        }
+    }
+
+    /**
+     * Removes every entry whose key matches.
+     *
+     * @param {Function} predicate - Selects the keys to remove.
+     * @return {number} - The number of removed entries.
+     */
+    deleteWhere(predicate: (key: string) => boolean): number {
+        const keys = [...this.entries.keys()].filter(predicate);
+        keys.forEach(key => this.delete(key));
+        return keys.length;
+    }
+}
+
+export { LruCache };
@@ -0,0 +1,195 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { Registry, Counter, Histogram, collectDefaultMetrics } from 'prom-client';
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * The registry every indexer metric is registered in, served by GET /metrics.
+ * @type {Registry}
+ */
+const registry: Registry = new Registry();
+
+collectDefaultMetrics({ register: registry, prefix: 'browsebox_indexer_' });
+
+const httpRequests = new Counter({
+    name: 'browsebox_indexer_http_requests_total',
+    help: 'Number of HTTP requests handled, by route and status.',
+    labelNames: ['method', 'route', 'status'],
+    registers: [registry],
+});
+
+const httpRequestDuration = new Histogram({
+    name: 'browsebox_indexer_http_request_duration_seconds',
+    help: 'Time taken to handle HTTP requests, by route and status.',
+    labelNames: ['method', 'route', 'status'],
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [registry],
+});
+
+const uploadSize = new Histogram({
+    name: 'browsebox_indexer_upload_size_bytes',
+    help: 'Size of uploaded images before processing.',
+    buckets: [16 * 1024, 64 * 1024, 256 * 1024, 1024 * 1024, 2 * 1024 * 1024, 5 * 1024 * 1024, 10 * 1024 * 1024],
+    registers: [registry],
+});
+
+const imageProcessingDuration = new Histogram({
+    name: 'browsebox_indexer_image_processing_duration_seconds',
+    help: 'Time spent in sharp generating the variants of an upload.',
+    labelNames: ['type'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [registry],
+});
+
+const transformCacheRequests = new Counter({
+    name: 'browsebox_indexer_transform_cache_requests_total',
+    help: 'Number of image transformations served, by whether they were cached.',
+    labelNames: ['result'],
+    registers: [registry],
+});
+
+const jobsCompleted = new Counter({
+    name: 'browsebox_indexer_jobs_completed_total',
+    help: 'Number of queued image jobs that finished, by action and outcome.',
+    labelNames: ['action', 'status'],
+    registers: [registry],
+});
+
+const webhookDeliveries = new Counter({
+    name: 'browsebox_indexer_webhook_deliveries_total',
+    help: 'Number of webhook delivery attempts, by subscription and outcome.',
+    labelNames: ['subscription', 'outcome'],
+    registers: [registry],
+});
+
+const storageDuration = new Histogram({
+    name: 'browsebox_indexer_storage_duration_seconds',
+    help: 'Time taken by calls to the storage backend, by operation and outcome.',
+    labelNames: ['backend', 'operation', 'outcome'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [registry],
+});
+
+const storageErrors = new Counter({
+    name: 'browsebox_indexer_storage_errors_total',
+    help: 'Number of failed calls to the storage backend, by operation.',
+    labelNames: ['backend', 'operation'],
+    registers: [registry],
+});
+
+const databaseErrors = new Counter({
+    name: 'browsebox_indexer_database_errors_total',
+    help: 'Number of failed Prisma queries, by model and action.',
+    labelNames: ['model', 'action'],
+    registers: [registry],
+});
+
+const rateLimitRejections = new Counter({
+    name: 'browsebox_indexer_rate_limit_rejections_total',
+    help: 'Number of requests rejected by the rate limiter.',
+    registers: [registry],
+});
+
+/**
+ * Counts every request and records how long it took once the response has been sent.
+ *
+ * Requests are labelled with the route pattern that handled them rather than their path, so IDs and keys do not
+ * create a new time series each. Requests no route handled are labelled "unmatched".
+ *
+ * @param {Request} req - The Express Request object.
+ * @param {Response} res - The Express Response object.
+ * @param {NextFunction} next - Continues with the next handler.
+ */
+function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const stopTimer = httpRequestDuration.startTimer();
+
+    res.on('finish', () => {
+        const labels = {
+            method: req.method,
+            route: req.route?.path ?? "unmatched",
+            status: String(res.statusCode),
+        };
+
+        httpRequests.inc(labels);
+        stopTimer(labels);
+    });
+
+    next();
+}
+
+/**
+ * Wraps a storage backend so the duration and outcome of every asynchronous call to it is recorded.
+ *
+ * @param {T} backend - The storage backend.
+ * @return {T} - The same backend, with its calls measured.
+ */
+function instrumentStorage<T extends object>(backend: T): T {
+    const name = backend.constructor.name;
+
+    return new Proxy(backend, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+
+            if (typeof value !== 'function' || typeof property !== 'string' || property === 'constructor') {
+                return value;
+            }
+
+            return (...args: unknown[]) => {
+                const result = value.apply(target, args);
+
+                if (!(result instanceof Promise)) {
+                    return result;
+                }
+
+                const stopTimer = storageDuration.startTimer({ backend: name, operation: property });
+                return result.then(
+                    (resolved) => {
+                        stopTimer({ outcome: 'success' });
+                        return resolved;
+                    },
+                    (error) => {
+                        stopTimer({ outcome: 'error' });
+                        storageErrors.inc({ backend: name, operation: property });
+                        throw error;
+                    }
+                );
+            };
+        }
+    });
+}
+
+/**
+ * Counts the queries of a Prisma client that fail, including those run inside transactions.
+ *
+ * @param {PrismaClient} client - The Prisma client.
+ * @return {PrismaClient} - The same client.
+ */
+function trackQueryErrors(client: PrismaClient): PrismaClient {
+    const middleware: Prisma.Middleware = async (params, next) => {
+        try {
+            return await next(params);
+        } catch (error) {
+            databaseErrors.inc({ model: params.model ?? "raw", action: params.action });
+            throw error;
+        }
+    };
+
+    client.$use(middleware);
+    return client;
+}
+
+export {
+    registry,
+    uploadSize,
+    imageProcessingDuration,
+    transformCacheRequests,
+    jobsCompleted,
+    webhookDeliveries,
+    rateLimitRejections,
+    metricsMiddleware,
+    instrumentStorage,
+    trackQueryErrors,
+};
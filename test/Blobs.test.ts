@@ -0,0 +1,91 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import sharp from 'sharp';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('./support/FakePrisma.ts'));
+
+import { beforeQuery, resetDatabase, rows, seed } from './support/FakePrisma.ts';
+import { retainImage, releaseImage } from '../src/Blobs.ts';
+import { storage } from '../src/storage/Storage.ts';
+
+/**
+ * @param {number} red - The red channel of the image, so different tests store different content.
+ * @return {Promise<Buffer>} - A small PNG.
+ */
+async function createImage(red: number): Promise<Buffer> {
+    return sharp({ create: { width: 8, height: 8, channels: 3, background: { r: red, g: 0, b: 0 } } }).png().toBuffer();
+}
+
+describe('retainImage and releaseImage', () => {
+    beforeEach(() => {
+        resetDatabase();
+    });
+
+    it('shares one blob between uploads of the same content', async () => {
+        const image = await createImage(10);
+        const first = await retainImage('profile', image, 'image/png');
+        const second = await retainImage('profile', image, 'image/png');
+
+        expect(second.key).toBe(first.key);
+        expect(second.variants).toEqual(first.variants);
+        expect(rows('blob')).toMatchObject([{ key: first.key, refCount: 2 }]);
+        expect(rows('pendingOperation')).toHaveLength(2);
+        expect(await storage.exists(first.key)).toBe(true);
+    });
+
+    it('deletes the objects once the last reference is released', async () => {
+        const retained = await retainImage('profile', await createImage(20), 'image/png');
+        await retainImage('profile', await createImage(20), 'image/png');
+
+        await releaseImage(retained.key);
+        expect(rows('blob')).toMatchObject([{ key: retained.key, refCount: 1 }]);
+        expect(await storage.exists(retained.key)).toBe(true);
+
+        await releaseImage(retained.key);
+        expect(rows('blob')).toEqual([]);
+        expect(await storage.exists(retained.key)).toBe(false);
+        for (const variantKey of Object.values(retained.variants).flatMap(formats => Object.values(formats))) {
+            expect(await storage.exists(variantKey)).toBe(false);
+        }
+    });
+
+    it('keeps a blob that is retained again while its last reference is released', async () => {
+        const image = await createImage(25);
+        const retained = await retainImage('profile', image, 'image/png');
+
+        beforeQuery('blob', 'deleteMany', async (concurrent) => {
+            await concurrent.blob.update({ where: { key: retained.key }, data: { refCount: { increment: 1 } } });
+        });
+        await releaseImage(retained.key);
+
+        expect(rows('blob')).toMatchObject([{ key: retained.key, refCount: 1 }]);
+        expect(await storage.exists(retained.key)).toBe(true);
+    });
+
+    it('releases the reference of a pending operation only once', async () => {
+        const image = await createImage(30);
+        const first = await retainImage('profile', image, 'image/png');
+        await retainImage('profile', image, 'image/png');
+
+        await releaseImage(first.key, null, first.operationId);
+        await releaseImage(first.key, null, first.operationId);
+
+        expect(rows('blob')).toMatchObject([{ key: first.key, refCount: 1 }]);
+        expect(rows('pendingOperation')).toHaveLength(1);
+    });
+
+    it('keeps untracked images that a row still points to', async () => {
+        const key = 'profile/untracked.png';
+        await storage.upload(key, await createImage(40), 'image/png');
+        seed('profile', { userId: 1, image: key });
+
+        await releaseImage(key);
+        expect(await storage.exists(key)).toBe(true);
+
+        resetDatabase();
+        await releaseImage(key);
+        expect(await storage.exists(key)).toBe(false);
+    });
+});
@@ -0,0 +1,24 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { describe, expect, it } from 'vitest';
+
+import { ConfigError, checkAuthConfig, loadConfig } from '../src/Config.ts';
+
+const storage = { STORAGE_BACKEND: 'memory' };
+
+describe('checkAuthConfig', () => {
+    it('leaves the authentication settings out of loading, so command line tools start without them', () => {
+        expect(() => loadConfig(storage)).not.toThrow();
+    });
+
+    it('rejects a server without any way to authenticate', () => {
+        expect(() => checkAuthConfig(loadConfig(storage))).toThrow(ConfigError);
+    });
+
+    it('accepts a JWT secret, API keys or disabled authentication', () => {
+        for (const auth of [{ AUTH_JWT_SECRET: 'secret' }, { AUTH_API_KEYS: 'search:key' }, { AUTH_DISABLED: 'true' }]) {
+            expect(() => checkAuthConfig(loadConfig({ ...storage, ...auth }))).not.toThrow();
+        }
+    });
+});
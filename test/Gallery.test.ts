@@ -0,0 +1,58 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('./support/FakePrisma.ts'));
+
+import { resetDatabase, rows, seed } from './support/FakePrisma.ts';
+import { InvalidOrderError, reorderGallery } from '../src/Gallery.ts';
+
+describe('reorderGallery', () => {
+    beforeEach(() => {
+        resetDatabase();
+        seed('listing',
+            { listingId: 1, index: 0, image: 'listing/a.png' },
+            { listingId: 1, index: 1, image: 'listing/b.png' },
+            { listingId: 1, index: 2, image: 'listing/c.png' },
+            { listingId: 2, index: 0, image: 'listing/d.png' },
+        );
+    });
+
+    it('moves every image to its position in the order', async () => {
+        const reordered = await reorderGallery(1, [2, 0, 1]);
+
+        expect(reordered.map(image => [image.index, image.image])).toEqual([
+            [0, 'listing/c.png'],
+            [1, 'listing/a.png'],
+            [2, 'listing/b.png'],
+        ]);
+        expect(rows('listing').filter(image => image.listingId === 2)).toMatchObject([{ index: 0, image: 'listing/d.png' }]);
+    });
+
+    it('reports the images that moved as updated', async () => {
+        await reorderGallery(1, [0, 2, 1]);
+
+        const events = rows('webhookDelivery').map(delivery => delivery.payload);
+        expect(events.map(event => [event.type, event.data.old.index, event.data.new.index])).toEqual([
+            ['image.updated', 2, 1],
+            ['image.updated', 1, 2],
+        ]);
+    });
+
+    it.each([
+        [[0, 1]],
+        [[0, 1, 1]],
+        [[0, 1, 3]],
+        [[0, 1, 2, 3]],
+    ])('rejects the order %j without changing the gallery', async (order) => {
+        await expect(reorderGallery(1, order)).rejects.toBeInstanceOf(InvalidOrderError);
+
+        expect(rows('listing').filter(image => image.listingId === 1).map(image => image.image)).toEqual([
+            'listing/a.png',
+            'listing/b.png',
+            'listing/c.png',
+        ]);
+        expect(rows('webhookDelivery')).toEqual([]);
+    });
+});
@@ -0,0 +1,113 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('./support/FakePrisma.ts'));
+
+import { resetDatabase, rows, seed } from './support/FakePrisma.ts';
+import { claimJob, failAbandonedJobs } from '../src/Jobs.ts';
+
+/**
+ * @param {string} id - The job ID.
+ * @param {object} fields - The fields that differ from a queued profile upload that is due.
+ * @return {object} - The job row.
+ */
+function job(id: string, fields: object = {}) {
+    return {
+        id,
+        action: 'upload',
+        type: 'profile',
+        entityId: 1,
+        stagingKey: `staging/${id}`,
+        contentType: 'image/png',
+        runAfter: new Date(Date.now() - 1000),
+        ...fields,
+    };
+}
+
+describe('claimJob', () => {
+    beforeEach(() => {
+        resetDatabase();
+    });
+
+    it('claims the job that has been due the longest', async () => {
+        seed('job',
+            job('later', { runAfter: new Date(Date.now() - 1000) }),
+            job('earlier', { runAfter: new Date(Date.now() - 5000) }),
+        );
+
+        const claimed = await claimJob();
+
+        expect(claimed).toMatchObject({ id: 'earlier', status: 'processing', attempts: 1 });
+        expect(claimed?.lockedUntil?.getTime()).toBeGreaterThan(Date.now());
+        expect(rows('job').find(row => row.id === 'earlier')).toMatchObject({ status: 'processing', attempts: 1 });
+    });
+
+    it('leaves jobs alone that are not due or still locked', async () => {
+        seed('job',
+            job('scheduled', { runAfter: new Date(Date.now() + 60000) }),
+            job('running', { status: 'processing', attempts: 1, lockedUntil: new Date(Date.now() + 60000) }),
+            job('done', { status: 'succeeded', attempts: 1 }),
+        );
+
+        expect(await claimJob()).toBeNull();
+    });
+
+    it('reclaims jobs whose worker stopped before finishing them', async () => {
+        seed('job', job('stalled', { status: 'processing', attempts: 1, lockedUntil: new Date(Date.now() - 1000) }));
+
+        expect(await claimJob()).toMatchObject({ id: 'stalled', status: 'processing', attempts: 2 });
+    });
+
+    it('leaves jobs alone whose worker stopped on their last attempt', async () => {
+        seed('job', job('exhausted', { status: 'processing', attempts: 5, lockedUntil: new Date(Date.now() - 1000) }));
+
+        expect(await claimJob()).toBeNull();
+        expect(rows('job')).toMatchObject([{ id: 'exhausted', attempts: 5 }]);
+    });
+
+    it('hands a job to only one of several workers', async () => {
+        seed('job', job('contested'));
+
+        const claims = await Promise.all([claimJob(), claimJob(), claimJob()]);
+
+        expect(claims.filter(claimed => claimed !== null)).toHaveLength(1);
+        expect(rows('job')).toMatchObject([{ id: 'contested', attempts: 1 }]);
+    });
+});
+
+describe('failAbandonedJobs', () => {
+    beforeEach(() => {
+        resetDatabase();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('fails jobs whose worker stopped on their last attempt and reports them', async () => {
+        const callbacks: string[] = [];
+        vi.stubGlobal('fetch', async (url: string) => {
+            callbacks.push(url);
+            return new Response(null, { status: 204 });
+        });
+
+        seed('job',
+            job('exhausted', { status: 'processing', attempts: 5, lockedUntil: new Date(Date.now() - 1000), callbackUrl: 'https://hooks.test/jobs' }),
+            job('retried', { status: 'processing', attempts: 4, lockedUntil: new Date(Date.now() - 1000) }),
+            job('running', { status: 'processing', attempts: 5, lockedUntil: new Date(Date.now() + 60000) }),
+        );
+
+        expect(await failAbandonedJobs()).toBe(1);
+
+        expect(rows('job').map(row => [row.id, row.status])).toEqual([
+            ['exhausted', 'failed'],
+            ['retried', 'processing'],
+            ['running', 'processing'],
+        ]);
+        expect(rows('job')[0]).toMatchObject({ errorCode: 'INTERNAL_ERROR', lockedUntil: null });
+        expect(rows('webhookDelivery').map(delivery => delivery.event)).toEqual(['image.processing_failed']);
+        expect(callbacks).toEqual(['https://hooks.test/jobs']);
+    });
+});
@@ -0,0 +1,45 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('./support/FakePrisma.ts'));
+
+import { beforeQuery, resetDatabase, seed } from './support/FakePrisma.ts';
+import { reconcileStorage } from '../src/Reconciliation.ts';
+import { storage } from '../src/storage/Storage.ts';
+
+const hash = 'ab'.repeat(32);
+const original = `assets/img/listing/a/ab/${hash}.png`;
+const thumbnail = `assets/img/listing/a/ab/${hash}_thumb.webp`;
+
+describe('reconcileStorage', () => {
+    beforeEach(async () => {
+        resetDatabase();
+        for (const key of [original, thumbnail]) {
+            await storage.upload(key, Buffer.from(key), 'image/png');
+        }
+    });
+
+    it('deletes objects that nothing points to', async () => {
+        const report = await reconcileStorage({ gracePeriod: 0 });
+
+        expect(report.deletedObjects).toBe(2);
+        expect(await storage.exists(original)).toBe(false);
+        expect(await storage.exists(thumbnail)).toBe(false);
+    });
+
+    it('keeps objects whose image was uploaded again during the scan', async () => {
+        // The blob is retained after the tables were read, right before the first orphan is looked up again.
+        beforeQuery('blob', 'count', async () => {
+            seed('blob', { key: original, hash, refCount: 1 });
+        });
+
+        const report = await reconcileStorage({ gracePeriod: 0 });
+
+        expect(report.deletedObjects).toBe(0);
+        expect(report.unreferencedObjects.map(orphan => orphan.skipped)).toEqual(['referenced since the scan', 'referenced since the scan']);
+        expect(await storage.exists(original)).toBe(true);
+        expect(await storage.exists(thumbnail)).toBe(true);
+    });
+});
@@ -0,0 +1,27 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import crypto from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('./support/FakePrisma.ts'));
+
+import { signWebhook } from '../src/Webhooks.ts';
+
+describe('signWebhook', () => {
+    const body = JSON.stringify({ id: 'event', type: 'image.created' });
+
+    it('signs the timestamp and body with the secret', () => {
+        const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+        expect(signWebhook('secret', 1700000000, body)).toBe(`t=1700000000,v1=${expected}`);
+    });
+
+    it('changes with the secret, the timestamp and the body', () => {
+        const signature = signWebhook('secret', 1700000000, body);
+
+        expect(signWebhook('other', 1700000000, body)).not.toBe(signature);
+        expect(signWebhook('secret', 1700000001, body)).not.toBe(signature);
+        expect(signWebhook('secret', 1700000000, `${body} `)).not.toBe(signature);
+    });
+});
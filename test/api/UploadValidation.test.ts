@@ -0,0 +1,56 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+
+import { UploadRejectedError, validateImage } from '../../src/api/UploadValidation.ts';
+
+/**
+ * @param {number} width - The image width.
+ * @param {number} height - The image height.
+ * @return {sharp.Sharp} - A blank image to encode.
+ */
+function blank(width: number, height: number): sharp.Sharp {
+    return sharp({ create: { width, height, channels: 3, background: { r: 0, g: 0, b: 0 } } });
+}
+
+/**
+ * @param {Promise<unknown>} validation - The validation that should fail.
+ * @return {Promise<string>} - The error code it failed with.
+ */
+async function rejectionCode(validation: Promise<unknown>): Promise<string> {
+    const error = await validation.catch(error => error);
+    expect(error).toBeInstanceOf(UploadRejectedError);
+    return (error as UploadRejectedError).code;
+}
+
+describe('validateImage', () => {
+    it('detects the format and dimensions from the content', async () => {
+        expect(await validateImage(await blank(30, 20).png().toBuffer())).toEqual({ format: 'png', mimetype: 'image/png', width: 30, height: 20 });
+        expect(await validateImage(await blank(30, 20).jpeg().toBuffer())).toMatchObject({ format: 'jpeg', mimetype: 'image/jpeg' });
+    });
+
+    it('rejects files that are not images', async () => {
+        expect(await rejectionCode(validateImage(Buffer.from("just some text")))).toBe('UNSUPPORTED_FORMAT');
+    });
+
+    it('rejects images with embedded markup', async () => {
+        const image = await blank(8, 8).png().toBuffer();
+        const polyglot = Buffer.concat([image, Buffer.from("<script>alert(1)</script>")]);
+
+        expect(await rejectionCode(validateImage(polyglot))).toBe('EMBEDDED_MARKUP');
+    });
+
+    it('rejects files that only start like an image', async () => {
+        const image = await blank(8, 8).png().toBuffer();
+
+        expect(await rejectionCode(validateImage(image.subarray(0, 16)))).toBe('UNREADABLE_IMAGE');
+    });
+
+    it('rejects images that are too large to process', async () => {
+        const image = await blank(10001, 1).png().toBuffer();
+
+        expect(await rejectionCode(validateImage(image))).toBe('DIMENSIONS_TOO_LARGE');
+    });
+});
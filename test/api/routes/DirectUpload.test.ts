@@ -0,0 +1,101 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('../../support/FakePrisma.ts'));
+
+import { beforeQuery, resetDatabase, rows, seed } from '../../support/FakePrisma.ts';
+import { storage } from '../../../src/storage/Storage.ts';
+
+const token = 'a1b2c3';
+
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * Finalizes the pending upload created for each test.
+ *
+ * @return {Promise<{status: number, body: {index?: number, code?: string}}>} - The status and body of the response.
+ */
+async function finalize(): Promise<{ status: number, body: { index?: number, code?: string } }> {
+    const response = await fetch(`${baseUrl}/api/image/upload/finalize`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${jwt.sign({ sub: '1', listings: [5] }, 'test-secret', { algorithm: 'HS256' })}`,
+        },
+        body: JSON.stringify({ token }),
+    });
+    return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/image/upload/finalize', () => {
+    beforeAll(async () => {
+        const app = express();
+        app.use((await import('../../../src/api/routes/DirectUpload.ts') as unknown as { default: Express }).default);
+
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(async () => {
+        resetDatabase();
+        seed('listing', { listingId: 5, index: 0, image: 'assets/img/listing/first.png' });
+        seed('pendingUpload', {
+            token,
+            type: 'listing',
+            entityId: 5,
+            key: `uploads/pending/${token}`,
+            contentType: 'image/png',
+            expiresAt: new Date(Date.now() + 60000),
+        });
+
+        const image = await sharp({ create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 0, b: 255 } } }).png().toBuffer();
+        await storage.upload(`uploads/pending/${token}`, image, 'image/png');
+    });
+
+    it('appends the image after the last one', async () => {
+        const { status, body } = await finalize();
+
+        expect(status).toBe(200);
+        expect(body.index).toBe(1);
+        expect(rows('listing').map(listing => listing.index)).toEqual([0, 1]);
+        expect(rows('pendingUpload')).toEqual([]);
+    });
+
+    it('answers 409 when another image takes the appended index first', async () => {
+        beforeQuery('listing', 'create', async (concurrent) => {
+            await concurrent.listing.create({ data: { listingId: 5, index: 1, image: 'assets/img/listing/other.png' } });
+        });
+
+        const { status, body } = await finalize();
+
+        expect(status).toBe(409);
+        expect(body.code).toBe('SLOT_TAKEN');
+        expect(rows('pendingUpload')).toHaveLength(1);
+    });
+
+    it('answers 400 when the gallery filled up while the image was processed', async () => {
+        beforeQuery('blob', 'upsert', async (concurrent) => {
+            for (let index = 1; index < 10; index++) {
+                await concurrent.listing.create({ data: { listingId: 5, index, image: `assets/img/listing/${index}.png` } });
+            }
+        });
+
+        const { status } = await finalize();
+
+        expect(status).toBe(400);
+        expect(rows('listing')).toHaveLength(10);
+        expect(rows('pendingUpload')).toHaveLength(1);
+    });
+});
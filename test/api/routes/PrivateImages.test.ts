@@ -0,0 +1,122 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('../../support/FakePrisma.ts'));
+
+import { resetDatabase, seed } from '../../support/FakePrisma.ts';
+
+/**
+ * The parts of the retrieve responses the tests look at.
+ */
+interface RetrieveResponse {
+    imageUrl?: string;
+    expiresAt?: string;
+    images?: { index: number }[];
+    listings?: Record<number, { index: number } | null>;
+    profiles?: Record<number, object | null>;
+}
+
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * @param {Promise<unknown>} module - The import of a route module, which exports its sub-app with module.exports.
+ * @return {Promise<Express>} - The sub-app.
+ */
+async function routes(module: Promise<unknown>): Promise<Express> {
+    return (await module as { default: Express }).default;
+}
+
+/**
+ * @param {string} path - The route to request.
+ * @param {RequestInit} [init] - The method, body and headers.
+ * @return {Promise<{status: number, body: RetrieveResponse}>} - The status and parsed JSON body of the response.
+ */
+async function request(path: string, init: RequestInit = {}): Promise<{ status: number, body: RetrieveResponse }> {
+    const response = await fetch(baseUrl + path, init);
+    return { status: response.status, body: await response.json() };
+}
+
+/**
+ * @param {number} userId - The user the token is issued to.
+ * @param {number[]} listings - The listings the user owns.
+ * @return {object} - The Authorization header of a user token.
+ */
+function bearer(userId: number, listings: number[] = []): { Authorization: string } {
+    return { Authorization: `Bearer ${jwt.sign({ sub: String(userId), listings }, 'test-secret', { algorithm: 'HS256' })}` };
+}
+
+describe('private images', () => {
+    beforeAll(async () => {
+        const app = express();
+        app.use(await routes(import('../../../src/api/routes/RetrieveImage.ts')));
+        app.use(await routes(import('../../../src/api/routes/ListingGallery.ts')));
+        app.use(await routes(import('../../../src/api/routes/v2/ProfileImage.ts')));
+        app.use(await routes(import('../../../src/api/routes/v2/ListingImages.ts')));
+
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        resetDatabase();
+        seed('profile', { userId: 1, image: 'assets/img/profile/private.png', visibility: 'private' });
+        seed('listing',
+            { listingId: 5, index: 0, image: 'assets/img/listing/private.png', visibility: 'private' },
+            { listingId: 5, index: 1, image: 'assets/img/listing/public.png', visibility: 'public' },
+        );
+    });
+
+    it('are not found by anonymous callers', async () => {
+        for (const path of ['/api/image/retrieve/profile/1', '/api/image/retrieve/listing/5/0', '/api/v2/profiles/1/image', '/api/v2/listings/5/images/0']) {
+            const { status, body } = await request(path);
+
+            expect(status, path).toBe(404);
+            expect(body.imageUrl, path).toBeUndefined();
+        }
+    });
+
+    it('are left out of galleries and bulk lookups for anonymous callers', async () => {
+        for (const path of ['/api/image/gallery/listing/5', '/api/v2/listings/5/images']) {
+            const { body } = await request(path);
+
+            expect(body.images?.map(image => image.index), path).toEqual([1]);
+        }
+
+        const { body } = await request('/api/image/retrieve/bulk', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ listingIds: [5], userIds: [1] }),
+        });
+
+        expect(body.listings?.[5]?.index).toBe(1);
+        expect(body.profiles?.[1]).toBeNull();
+    });
+
+    it('are not shown to users who do not own them', async () => {
+        const { status } = await request('/api/v2/profiles/1/image', { headers: bearer(2, [6]) });
+
+        expect(status).toBe(404);
+    });
+
+    it('are returned with signed URLs to their owners', async () => {
+        const profile = await request('/api/v2/profiles/1/image', { headers: bearer(1) });
+        const listing = await request('/api/image/retrieve/listing/5/0', { headers: bearer(2, [5]) });
+
+        for (const { status, body } of [profile, listing]) {
+            expect(status).toBe(200);
+            expect(body.imageUrl).toContain('signature=');
+            expect(body.expiresAt).toBeDefined();
+        }
+    });
+});
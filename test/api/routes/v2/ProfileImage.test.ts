@@ -0,0 +1,88 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { Express } from 'express';
+import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+import { Prisma } from '@prisma/client';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => import('../../../support/FakePrisma.ts'));
+
+import { beforeQuery, resetDatabase, seed } from '../../../support/FakePrisma.ts';
+
+const authorization = `Bearer ${jwt.sign({ sub: '1' }, 'test-secret', { algorithm: 'HS256' })}`;
+
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * @param {string} method - The HTTP method.
+ * @param {string} path - The route to request.
+ * @param {FormData} [body] - The multipart form to send.
+ * @return {Promise<{status: number, body: {code?: string}}>} - The status and parsed JSON body of the response.
+ */
+async function request(method: string, path: string, body?: FormData): Promise<{ status: number, body: { code?: string } }> {
+    const response = await fetch(baseUrl + path, { method, headers: { Authorization: authorization }, body });
+    return { status: response.status, body: response.status === 204 ? {} : await response.json() };
+}
+
+/**
+ * @return {Promise<FormData>} - A form with a small PNG in its image field.
+ */
+async function imageForm(): Promise<FormData> {
+    const image = await sharp({ create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 255, b: 0 } } }).png().toBuffer();
+    const form = new FormData();
+    form.append('image', new Blob([image], { type: 'image/png' }), 'image.png');
+    return form;
+}
+
+describe('/api/v2/profiles/:userId/image', () => {
+    beforeAll(async () => {
+        const app = express();
+        app.use((await import('../../../../src/api/routes/v2/ProfileImage.ts') as unknown as { default: Express }).default);
+
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        resetDatabase();
+        seed('profile', { userId: 1, image: 'assets/img/profile/a/ab/ab.png' });
+    });
+
+    it('rejects unknown sizes', async () => {
+        const { status, body } = await request('GET', '/api/v2/profiles/1/image?size=gigantic');
+
+        expect(status).toBe(400);
+        expect(body.code).toBe('UNKNOWN_SIZE');
+    });
+
+    it('answers 409 when an upload collides with a concurrent one', async () => {
+        beforeQuery('blob', 'upsert', () => {
+            throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed on the fields: (key)", { code: 'P2002', clientVersion: 'fake' });
+        });
+
+        const { status, body } = await request('PUT', '/api/v2/profiles/1/image', await imageForm());
+
+        expect(status).toBe(409);
+        expect(body.code).toBe('CONFLICT');
+    });
+
+    it('answers 404 when the image is deleted by a concurrent request', async () => {
+        beforeQuery('profile', 'delete', async (concurrent) => {
+            await concurrent.profile.deleteMany({ where: { userId: 1 } });
+        });
+
+        const { status, body } = await request('DELETE', '/api/v2/profiles/1/image');
+
+        expect(status).toBe(404);
+        expect(body.code).toBe('IMAGE_NOT_FOUND');
+    });
+});
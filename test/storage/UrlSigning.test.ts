@@ -0,0 +1,57 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createSignedQuery, verifySignedQuery } from '../../src/storage/UrlSigning.ts';
+
+/**
+ * @param {string} key - The object key.
+ * @param {number} expiresIn - How long the access lasts, in seconds.
+ * @return {object} - The expires and signature parameters of a signed query.
+ */
+function signedParameters(key: string, expiresIn: number) {
+    const query = new URLSearchParams(createSignedQuery(key, expiresIn));
+    return { expires: query.get('expires') ?? undefined, signature: query.get('signature') ?? undefined };
+}
+
+describe('createSignedQuery and verifySignedQuery', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('accepts a query for the key it was signed for', () => {
+        const { expires, signature } = signedParameters('profile/a.png', 60);
+
+        expect(verifySignedQuery('profile/a.png', expires, signature)).toBe(true);
+    });
+
+    it('rejects a query for another key', () => {
+        const { expires, signature } = signedParameters('profile/a.png', 60);
+
+        expect(verifySignedQuery('profile/b.png', expires, signature)).toBe(false);
+    });
+
+    it('rejects a query whose expiry was changed', () => {
+        const { expires, signature } = signedParameters('profile/a.png', 60);
+
+        expect(verifySignedQuery('profile/a.png', String(Number(expires) + 3600), signature)).toBe(false);
+    });
+
+    it('rejects an expired query', () => {
+        const { expires, signature } = signedParameters('profile/a.png', 60);
+
+        vi.useFakeTimers();
+        vi.setSystemTime(Date.now() + 61000);
+
+        expect(verifySignedQuery('profile/a.png', expires, signature)).toBe(false);
+    });
+
+    it.each([
+        [undefined, undefined],
+        ['soon', 'abc'],
+        [['1', '2'], 'abc'],
+    ])('rejects malformed parameters %j and %j', (expires, signature) => {
+        expect(verifySignedQuery('profile/a.png', expires, signature)).toBe(false);
+    });
+});
@@ -0,0 +1,352 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+// An in-memory stand-in for the generated Prisma client, covering the queries the indexer makes. Every PrismaClient
+// shares one database, like the real clients share one MySQL schema. Tests replace @prisma/client with it using
+// `vi.mock('@prisma/client', () => import('./support/FakePrisma.ts'))`.
+
+// Rows and query arguments take the shape of whichever model is queried, so they are not typed.
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+// The error classes and null markers come from the generated client, which does not need a database until it connects.
+// It is loaded with require, which the mock does not apply to.
+const { Prisma }: typeof import('@prisma/client') = require('@prisma/client');
+
+type Row = Record<string, any>;
+type Hook = (tx: any) => Promise<void> | void;
+
+/**
+ * The primary key and default values of every model in prisma/schema.prisma.
+ */
+const models: Record<string, { id: string[], autoIncrement?: boolean, defaults: Row }> = {
+    profile: {
+        id: ['userId'],
+        defaults: { variants: null, visibility: 'public', originalName: null, uploadedBy: null },
+    },
+    listing: {
+        id: ['listingId', 'index'],
+        defaults: { variants: null, visibility: 'public', originalName: null, uploadedBy: null },
+    },
+    blob: {
+        id: ['key'],
+        defaults: {
+            refCount: 0, variants: null, processing: null, width: null, height: null, size: null, format: null,
+            blurhash: null, placeholder: null, dominantColor: null,
+        },
+    },
+    pendingUpload: {
+        id: ['token'],
+        defaults: { index: null, visibility: 'public' },
+    },
+    pendingOperation: {
+        id: ['id'],
+        autoIncrement: true,
+        defaults: { variants: null, attempts: 0, lastError: null },
+    },
+    job: {
+        id: ['id'],
+        defaults: {
+            index: null, visibility: null, originalName: null, uploadedBy: null, callbackUrl: null, status: 'queued',
+            attempts: 0, errorCode: null, lastError: null, result: null, lockedUntil: null, completedAt: null,
+        },
+    },
+    webhookDelivery: {
+        id: ['id'],
+        autoIncrement: true,
+        defaults: {
+            status: 'pending', attempts: 0, responseStatus: null, lastError: null, deliveredAt: null, replayOf: null,
+        },
+    },
+};
+
+const tables: Record<string, Row[]> = {};
+const sequences: Record<string, number> = {};
+const hooks: { model: string, action: string, hook: Hook }[] = [];
+
+/**
+ * Empties every table and removes the hooks, so each test starts from a blank database.
+ */
+function resetDatabase(): void {
+    for (const model of Object.keys(models)) {
+        tables[model] = [];
+        sequences[model] = 0;
+    }
+    hooks.length = 0;
+}
+
+/**
+ * Runs a callback once, right before the next query of the given model and action. The callback gets a client outside
+ * of any transaction, so it can stand in for a concurrent request that commits in the middle of another one.
+ *
+ * @param {string} model - The model, e.g. "blob".
+ * @param {string} action - The query, e.g. "deleteMany".
+ * @param {Hook} hook - The callback to run.
+ */
+function beforeQuery(model: string, action: string, hook: Hook): void {
+    hooks.push({ model, action, hook });
+}
+
+/**
+ * @param {string} model - The model.
+ * @return {Row[]} - The rows currently stored for the model.
+ */
+function rows(model: string): Row[] {
+    return tables[model];
+}
+
+/**
+ * @param {string} model - The model.
+ * @param {Row} data - Rows to store as they are, apart from defaults and timestamps.
+ */
+function seed(model: string, ...data: Row[]): void {
+    for (const row of data) {
+        tables[model].push(fill(model, row));
+    }
+}
+
+function clone<T>(value: T): T {
+    return structuredClone(value);
+}
+
+function knownError(code: string, message: string): Error {
+    return new Prisma.PrismaClientKnownRequestError(message, { code, clientVersion: 'fake' });
+}
+
+function fill(model: string, data: Row): Row {
+    const { id, autoIncrement, defaults } = models[model];
+    const now = new Date();
+    const row: Row = { ...clone(defaults), createdAt: now, updatedAt: now };
+    applyUpdate(row, data);
+
+    if (autoIncrement && row[id[0]] === undefined) {
+        row[id[0]] = ++sequences[model];
+    }
+
+    return row;
+}
+
+function isOperatorObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function compare(left: any, right: any): number {
+    const a = left instanceof Date ? left.getTime() : left;
+    const b = right instanceof Date ? right.getTime() : right;
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function equals(left: any, right: any): boolean {
+    if (left === null || right === null || left === undefined || right === undefined) {
+        return (left ?? null) === (right ?? null);
+    }
+    return compare(left, right) === 0;
+}
+
+function matchesField(value: any, condition: any): boolean {
+    if (!isOperatorObject(condition)) {
+        return equals(value, condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]: [string, any]) => {
+        switch (operator) {
+        case 'equals': return equals(value, operand);
+        case 'not': return isOperatorObject(operand) ? !matchesField(value, operand) : !equals(value, operand);
+        case 'in': return operand.some((item: any) => equals(value, item));
+        case 'notIn': return !operand.some((item: any) => equals(value, item));
+        case 'lt': return value !== null && compare(value, operand) < 0;
+        case 'lte': return value !== null && compare(value, operand) <= 0;
+        case 'gt': return value !== null && compare(value, operand) > 0;
+        case 'gte': return value !== null && compare(value, operand) >= 0;
+        case 'startsWith': return typeof value === 'string' && value.startsWith(operand);
+        default: throw new Error(`FakePrisma does not support the ${operator} filter.`);
+        }
+    });
+}
+
+function matches(row: Row, where: Row = {}): boolean {
+    return Object.entries(where).every(([field, condition]) => {
+        if (condition === undefined) {
+            return true;
+        }
+        if (field === 'AND') {
+            return condition.every((part: Row) => matches(row, part));
+        }
+        if (field === 'OR') {
+            return condition.some((part: Row) => matches(row, part));
+        }
+        if (field === 'NOT') {
+            return !matches(row, condition);
+        }
+        // Compound unique keys, e.g. { listingId_index: { listingId, index } }.
+        if (!(field in row) && isOperatorObject(condition)) {
+            return matches(row, condition);
+        }
+        return matchesField(row[field], condition);
+    });
+}
+
+function applyUpdate(row: Row, data: Row): void {
+    for (const [field, value] of Object.entries(data)) {
+        if (value === undefined) {
+            continue;
+        }
+        if (isOperatorObject(value) && ('increment' in value || 'decrement' in value || 'set' in value)) {
+            if ('set' in value) row[field] = clone(value.set);
+            if ('increment' in value) row[field] += value.increment;
+            if ('decrement' in value) row[field] -= value.decrement;
+        } else {
+            row[field] = value === Prisma.JsonNull || value === Prisma.DbNull ? null : clone(value);
+        }
+    }
+    row.updatedAt = new Date();
+}
+
+function checkUnique(model: string, row: Row, except?: Row): void {
+    const { id } = models[model];
+    const duplicate = tables[model].some(other => other !== except && id.every(field => equals(other[field], row[field])));
+
+    if (duplicate) {
+        throw knownError('P2002', `Unique constraint failed on the fields: (${id.join(', ')})`);
+    }
+}
+
+function sort(found: Row[], orderBy?: Row | Row[]): Row[] {
+    const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+    return [...found].sort((a, b) => {
+        for (const order of orders) {
+            for (const [field, direction] of Object.entries(order)) {
+                const result = compare(a[field], b[field]);
+                if (result !== 0) {
+                    return direction === 'desc' ? -result : result;
+                }
+            }
+        }
+        return 0;
+    });
+}
+
+/**
+ * Builds the delegate for one model, e.g. `prisma.blob`.
+ *
+ * @param {string} model - The model.
+ * @param {Function} run - Runs an action after any hook registered for it.
+ * @return {object} - The delegate.
+ */
+function delegate(model: string, run: (action: string, query: () => any) => Promise<any>) {
+    const table = () => tables[model];
+    const find = (where?: Row) => table().find(row => matches(row, where));
+    const missing = () => knownError('P2025', 'Record to update or delete does not exist.');
+
+    return {
+        findUnique: (args: Row) => run('findUnique', () => clone(find(args.where) ?? null)),
+        findUniqueOrThrow: (args: Row) => run('findUniqueOrThrow', () => {
+            const row = find(args.where);
+            if (!row) throw knownError('P2025', 'No record found.');
+            return clone(row);
+        }),
+        findFirst: (args: Row = {}) => run('findFirst', () => {
+            return clone(sort(table().filter(row => matches(row, args.where)), args.orderBy)[0] ?? null);
+        }),
+        findMany: (args: Row = {}) => run('findMany', () => {
+            const found = sort(table().filter(row => matches(row, args.where)), args.orderBy);
+            return clone(args.take !== undefined ? found.slice(0, args.take) : found);
+        }),
+        count: (args: Row = {}) => run('count', () => table().filter(row => matches(row, args.where)).length),
+        create: (args: Row) => run('create', () => {
+            const row = fill(model, args.data);
+            checkUnique(model, row);
+            table().push(row);
+            return clone(row);
+        }),
+        createMany: (args: Row) => run('createMany', () => {
+            for (const data of args.data) {
+                const row = fill(model, data);
+                checkUnique(model, row);
+                table().push(row);
+            }
+            return { count: args.data.length };
+        }),
+        update: (args: Row) => run('update', () => {
+            const row = find(args.where);
+            if (!row) throw missing();
+            const updated = { ...row };
+            applyUpdate(updated, args.data);
+            checkUnique(model, updated, row);
+            Object.assign(row, updated);
+            return clone(row);
+        }),
+        updateMany: (args: Row) => run('updateMany', () => {
+            const found = table().filter(row => matches(row, args.where));
+            found.forEach(row => applyUpdate(row, args.data));
+            return { count: found.length };
+        }),
+        upsert: (args: Row) => run('upsert', () => {
+            const row = find(args.where);
+            if (row) {
+                applyUpdate(row, args.update);
+                return clone(row);
+            }
+            const created = fill(model, args.create);
+            checkUnique(model, created);
+            table().push(created);
+            return clone(created);
+        }),
+        delete: (args: Row) => run('delete', () => {
+            const row = find(args.where);
+            if (!row) throw missing();
+            tables[model] = table().filter(other => other !== row);
+            return clone(row);
+        }),
+        deleteMany: (args: Row = {}) => run('deleteMany', () => {
+            const kept = table().filter(row => !matches(row, args.where));
+            const count = table().length - kept.length;
+            tables[model] = kept;
+            return { count };
+        }),
+    };
+}
+
+class PrismaClient {
+    [model: string]: any;
+
+    constructor() {
+        const run = async (model: string, action: string, query: () => any) => {
+            const index = hooks.findIndex(hook => hook.model === model && hook.action === action);
+            if (index !== -1) {
+                const [{ hook }] = hooks.splice(index, 1);
+                await hook(new PrismaClient());
+            }
+            return query();
+        };
+
+        for (const model of Object.keys(models)) {
+            this[model] = delegate(model, (action, query) => run(model, action, query));
+        }
+    }
+
+    $use(): void {
+        // Query middleware only records metrics, which the tests do not look at.
+    }
+
+    async $transaction(queries: Promise<any>[] | ((tx: PrismaClient) => Promise<any>)): Promise<any> {
+        if (Array.isArray(queries)) {
+            return Promise.all(queries);
+        }
+
+        const snapshot = clone(tables);
+        try {
+            return await queries(this);
+        } catch (error) {
+            Object.assign(tables, snapshot);
+            throw error;
+        }
+    }
+
+    async $connect(): Promise<void> {}
+
+    async $disconnect(): Promise<void> {}
+}
+
+resetDatabase();
+
+export { Prisma, PrismaClient, resetDatabase, beforeQuery, rows, seed };
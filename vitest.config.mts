@@ -0,0 +1,25 @@
+// Copyright (c) BrowseBox. Licensed under the MIT Licence.
+// See the LICENCE file in the repository root for full licence text.
+
+import os from 'os';
+import path from 'path';
+
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['test/**/*.test.ts'],
+        // Every test runs against in-memory storage and a fake database, see test/support/FakePrisma.ts.
+        env: {
+            STORAGE_BACKEND: 'memory',
+            AUTH_JWT_SECRET: 'test-secret',
+            LOG_LEVEL: 'error',
+            LOG_DIRECTORY: path.join(os.tmpdir(), 'browsebox-indexer-tests'),
+            WEBHOOKS: 'search',
+            WEBHOOK_SEARCH_URL: 'http://localhost/hooks',
+            WEBHOOK_SEARCH_SECRET: 'search-secret',
+            JOB_CALLBACK_HOSTS: 'hooks.test',
+            JOB_CALLBACK_SECRET: 'callback-secret',
+        },
+    },
+});